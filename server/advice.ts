@@ -0,0 +1,44 @@
+import { GoogleGenAI, Type } from '@google/genai';
+
+// The AI coach's calls to Gemini. They go through this server so the API key
+// stays here instead of being shipped to every browser that loads the app.
+
+export type Advice = {
+  feedback: string;
+  recommendations: string[];
+};
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const SYSTEM_INSTRUCTION = `あなたは処理速度（PSI）トレーニングアプリのコーチです。
+記号探し・符号・抹消の各課題の記録の要約（JSON）を受け取り、日本語で次の内容を返します。
+- feedback: 現在の傾向についての短い講評（3〜5文）。PSIの推移、正答率と速さのバランス（speedAccuracy が負なら速さを優先して正確さが落ちている）、練習の頻度と目標に触れる。
+- recommendations: 次のセッションに向けた具体的な提案を2〜4個。課題と条件（時間、記号数、配置など）を名指しする。
+PSIは平均100・標準偏差15の指標です。医学的な診断や断定はせず、励ましつつ率直に書いてください。`;
+
+export const createAdvisor = (apiKey: string) => {
+  const ai = new GoogleGenAI({ apiKey });
+  return async (summary: object): Promise<Advice> => {
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: JSON.stringify(summary),
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            feedback: { type: Type.STRING },
+            recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
+          },
+          required: ['feedback', 'recommendations'],
+        },
+      },
+    });
+    const advice = JSON.parse(response.text ?? '');
+    if (typeof advice?.feedback !== 'string' || !Array.isArray(advice.recommendations)) {
+      throw new Error('Unexpected response from Gemini');
+    }
+    return { feedback: advice.feedback, recommendations: advice.recommendations.filter((r: unknown) => typeof r === 'string') };
+  };
+};
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { openStore } from './db';
+import type { Store } from './db';
+
+const session = (id: string, date: number, score = 20) =>
+  ({ id, date, gameType: 'coding', score, mistakes: 1, psi: 100 });
+
+let store: Store;
+
+beforeEach(() => {
+  store = openStore(':memory:');
+  store.saveProfile('p1', 'Aoi', 1);
+});
+
+afterEach(() => store.close());
+
+describe('addSessions', () => {
+  it('skips a re-sent copy and reports a different session under a taken id', () => {
+    expect(store.addSessions('p1', 2, [session('1', 10), session('2', 20)])).toEqual({ added: 2, conflicts: [] });
+    expect(store.addSessions('p1', 2, [session('1', 10), session('2', 20, 5), session('3', 30)])).toEqual({ added: 1, conflicts: ['2'] });
+    expect(store.sessionsSince('p1', 0, 10).map(s => [s.data.id, s.data.score])).toEqual([['1', 20], ['2', 20], ['3', 20]]);
+  });
+
+  it('keeps profiles apart', () => {
+    store.saveProfile('p2', 'Ren', 2);
+    store.addSessions('p1', 2, [session('1', 10)]);
+    expect(store.addSessions('p2', 2, [session('1', 10, 7)])).toEqual({ added: 1, conflicts: [] });
+    expect(store.listProfiles().map(p => [p.id, p.sessions, p.lastSession])).toEqual([['p1', 1, 10], ['p2', 1, 10]]);
+  });
+});
+
+describe('sessionsSince', () => {
+  it('pages by arrival, so a late push of an old session is still picked up', () => {
+    store.addSessions('p1', 2, [session('new', 100)]);
+    const first = store.sessionsSince('p1', 0, 10);
+    store.addSessions('p1', 1, [session('old', 1)]);
+    const next = store.sessionsSince('p1', first[first.length - 1].seq, 10);
+    expect(next.map(s => [s.data.id, s.version])).toEqual([['old', 1]]);
+  });
+});
@@ -0,0 +1,102 @@
+import Database from 'better-sqlite3';
+
+export type RemoteProfile = {
+  id: string;
+  name: string;
+  createdAt: number;
+  sessions: number;
+  lastSession: number | null;
+};
+
+// A session as pushed by a client, kept verbatim together with the schema
+// version it was written at so newer clients can migrate it on pull.
+export type StoredSession = {
+  seq: number;
+  version: number;
+  data: { id: string; date: number; gameType: string; score: number; mistakes: number; [key: string]: unknown };
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS profiles (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sessions (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    profile_id TEXT NOT NULL REFERENCES profiles(id),
+    id TEXT NOT NULL,
+    date INTEGER NOT NULL,
+    schema_version INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    received_at INTEGER NOT NULL,
+    UNIQUE (profile_id, id)
+  );
+`;
+
+// Two devices can mint the same Date.now() id for different sessions. A
+// re-sent copy of the same session matches on these fields; anything else is a conflict.
+const sameSession = (a: StoredSession['data'], b: StoredSession['data']) =>
+  a.date === b.date && a.gameType === b.gameType && a.score === b.score && a.mistakes === b.mistakes;
+
+export const openStore = (file: string) => {
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  const listProfiles = db.prepare(`
+    SELECT p.id, p.name, p.created_at AS createdAt, COUNT(s.seq) AS sessions, MAX(s.date) AS lastSession
+    FROM profiles p LEFT JOIN sessions s ON s.profile_id = p.id
+    GROUP BY p.id ORDER BY p.created_at
+  `);
+  const upsertProfile = db.prepare(`
+    INSERT INTO profiles (id, name, created_at, updated_at) VALUES (@id, @name, @createdAt, @now)
+    ON CONFLICT (id) DO UPDATE SET name = excluded.name, updated_at = excluded.updated_at
+  `);
+  const hasProfile = db.prepare('SELECT 1 FROM profiles WHERE id = ?').pluck();
+  const findSession = db.prepare('SELECT data FROM sessions WHERE profile_id = ? AND id = ?').pluck();
+  const insertSession = db.prepare(`
+    INSERT INTO sessions (profile_id, id, date, schema_version, data, received_at)
+    VALUES (@profileId, @id, @date, @version, @data, @now)
+  `);
+  const sessionsSince = db.prepare(`
+    SELECT seq, schema_version AS version, data FROM sessions
+    WHERE profile_id = ? AND seq > ? ORDER BY seq LIMIT ?
+  `);
+
+  return {
+    listProfiles: () => listProfiles.all() as RemoteProfile[],
+
+    hasProfile: (id: string) => hasProfile.get(id) !== undefined,
+
+    saveProfile: (id: string, name: string, createdAt: number) =>
+      upsertProfile.run({ id, name, createdAt, now: Date.now() }),
+
+    // Returns the ids that clash with a different session already stored under the same id
+    addSessions: db.transaction((profileId: string, version: number, sessions: StoredSession['data'][]) => {
+      const conflicts: string[] = [];
+      let added = 0;
+      for (const session of sessions) {
+        const existing = findSession.get(profileId, session.id) as string | undefined;
+        if (existing !== undefined) {
+          if (!sameSession(JSON.parse(existing), session)) conflicts.push(session.id);
+          continue;
+        }
+        insertSession.run({ profileId, id: session.id, date: session.date, version, data: JSON.stringify(session), now: Date.now() });
+        added++;
+      }
+      return { added, conflicts };
+    }),
+
+    // Paged by insertion order, so the cursor also picks up old sessions pushed late
+    sessionsSince: (profileId: string, since: number, limit: number) =>
+      (sessionsSince.all(profileId, since, limit) as { seq: number; version: number; data: string }[])
+        .map((row): StoredSession => ({ seq: row.seq, version: row.version, data: JSON.parse(row.data) })),
+
+    close: () => db.close(),
+  };
+};
+
+export type Store = ReturnType<typeof openStore>;
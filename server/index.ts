@@ -0,0 +1,151 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import dotenv from 'dotenv';
+import express from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import { createAdvisor } from './advice';
+import { openStore } from './db';
+import type { StoredSession } from './db';
+
+// Self-hosted sync server for PSI Training: run `npm run server` on a machine
+// the devices can reach and enter its address in the app's sync settings.
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.SYNC_PORT || 8787);
+const DB_FILE = process.env.SYNC_DB || 'psi-sync.sqlite';
+// Optional shared secret; without it anyone on the network can read and write
+const TOKEN = process.env.SYNC_TOKEN || null;
+const PAGE_SIZE = 500;
+// Enables the app's AI coach; the key never leaves this server
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY || null;
+// A training summary is a few kilobytes; anything much larger isn't one
+const MAX_SUMMARY_BYTES = 64 * 1024;
+
+const store = openStore(DB_FILE);
+const advise = GEMINI_API_KEY ? createAdvisor(GEMINI_API_KEY) : null;
+const app = express();
+
+// The app is served from another origin (or the Capacitor WebView), so allow any
+app.use((req, res, next) => {
+  res.header('Access-Control-Allow-Origin', '*');
+  res.header('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.header('Access-Control-Allow-Methods', 'GET, PUT, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(204);
+    return;
+  }
+  next();
+});
+
+// Hashed first so the comparison takes the same time whatever the length of the guess
+const digest = (value: string) => createHash('sha256').update(value).digest();
+const EXPECTED_AUTH = TOKEN ? digest(`Bearer ${TOKEN}`) : null;
+
+app.use('/api', (req, res, next) => {
+  if (EXPECTED_AUTH && !timingSafeEqual(digest(req.header('Authorization') ?? ''), EXPECTED_AUTH)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+  next();
+});
+
+// Sessions carry their trials, so a first sync can be large
+app.use(express.json({ limit: '50mb' }));
+
+const isSession = (s: any): s is StoredSession['data'] =>
+  !!s && typeof s === 'object'
+  && typeof s.id === 'string'
+  && typeof s.date === 'number'
+  && typeof s.gameType === 'string'
+  && typeof s.score === 'number'
+  && typeof s.mistakes === 'number';
+
+// `advice` tells the app whether to offer the AI coach
+app.get('/api/health', (_req, res) => {
+  res.json({ ok: true, advice: advise !== null });
+});
+
+// Body: a training summary from the app; the reply is { feedback, recommendations }
+app.post('/api/advice', async (req, res) => {
+  if (!advise) {
+    res.status(404).json({ error: 'AI coach is not configured' });
+    return;
+  }
+  const summary = req.body;
+  if (!summary || typeof summary !== 'object' || Array.isArray(summary) || JSON.stringify(summary).length > MAX_SUMMARY_BYTES) {
+    res.status(400).json({ error: 'Expected a training summary' });
+    return;
+  }
+  try {
+    res.json(await advise(summary));
+  } catch (e) {
+    console.error(e);
+    res.status(502).json({ error: 'Gemini request failed' });
+  }
+});
+
+app.get('/api/profiles', (_req, res) => {
+  res.json({ profiles: store.listProfiles() });
+});
+
+app.put('/api/profiles/:id', (req, res) => {
+  const { name, createdAt } = req.body ?? {};
+  if (typeof name !== 'string' || name.trim() === '' || typeof createdAt !== 'number') {
+    res.status(400).json({ error: 'Expected { name, createdAt }' });
+    return;
+  }
+  store.saveProfile(req.params.id, name.trim(), createdAt);
+  res.json({ ok: true });
+});
+
+// Body: { schemaVersion, sessions }. Sessions already stored under the same id
+// are skipped; ids taken by a different session come back as conflicts.
+app.post('/api/profiles/:id/sessions', (req, res) => {
+  const { schemaVersion, sessions } = req.body ?? {};
+  if (!store.hasProfile(req.params.id)) {
+    res.status(404).json({ error: 'Unknown profile' });
+    return;
+  }
+  if (typeof schemaVersion !== 'number' || !Array.isArray(sessions) || !sessions.every(isSession)) {
+    res.status(400).json({ error: 'Expected { schemaVersion, sessions }' });
+    return;
+  }
+  res.json(store.addSessions(req.params.id, schemaVersion, sessions));
+});
+
+// Sessions received after `since`; keep calling with the returned cursor until `more` is false
+app.get('/api/profiles/:id/sessions', (req, res) => {
+  const since = Number(req.query.since ?? 0);
+  if (!Number.isInteger(since) || since < 0) {
+    res.status(400).json({ error: 'Invalid cursor' });
+    return;
+  }
+  const rows = store.sessionsSince(req.params.id, since, PAGE_SIZE);
+  res.json({
+    sessions: rows.map(r => ({ version: r.version, data: r.data })),
+    cursor: rows.length > 0 ? rows[rows.length - 1].seq : since,
+    more: rows.length === PAGE_SIZE,
+  });
+});
+
+// Body parser errors (malformed JSON, too large) carry their own 4xx status
+app.use((err: Error & { status?: number }, _req: Request, res: Response, _next: NextFunction) => {
+  if (err.status && err.status < 500) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+  console.error(err);
+  res.status(500).json({ error: 'Internal error' });
+});
+
+app.listen(PORT, () => {
+  console.log(`PSI Training sync server listening on port ${PORT} (database: ${DB_FILE}, AI coach: ${advise ? 'on' : 'off'})`);
+  if (!TOKEN) {
+    console.warn([
+      '',
+      '*** WARNING: SYNC_TOKEN is not set. ***',
+      '*** Anyone who can reach this port can read and change every trainee\'s records. ***',
+      '*** Set SYNC_TOKEN in .env.local and enter the same token in the app. ***',
+      '',
+    ].join('\n'));
+  }
+});
@@ -1,170 +1,628 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import {
   Star, Circle, Triangle, Square, Hexagon, Diamond, Cloud, Sun, Moon, Heart,
-  Zap, Flame, Droplet, Leaf, Snowflake, Play, RotateCcw, Home as HomeIcon, Check, X, BarChart2, Info, Brain, Trash2, TrendingUp
+  Zap, Flame, Droplet, Leaf, Snowflake, Play, RotateCcw, Home as HomeIcon, Check, X, BarChart2, Info, Brain, Trash2, TrendingUp, Timer, User, UserPlus, Pencil, Keyboard, Pause, SkipForward, Plus, ClipboardCheck, CalendarDays, Bell, Trophy, Target, Users, AlertTriangle, Sparkles
 } from 'lucide-react';
-import { LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
-
-const ALL_SYMBOLS = [
-  Star, Circle, Triangle, Square, Hexagon, Diamond, Cloud, Sun, Moon, Heart,
-  Zap, Flame, Droplet, Leaf, Snowflake
+import { Capacitor } from '@capacitor/core';
+import { App as CapacitorApp } from '@capacitor/app';
+import { LineChart, Line, AreaChart, Area, ComposedChart, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import type { Assessment, CancellationLayout, CodingMode, CustomSymbolSet, DistractorLevel, GameType, InputMethod, ReactionMode, TimeLimit, StatEntry, Trial } from './types';
+import { accuracyBySimilarity, computeLearningCurve, computeRtStats, summarizeReactionErrors, summarizeStats } from './analytics';
+import { DEFAULT_NORMS, LEGACY_NORM_VERSION, ageBands, compositePSI, layoutDifficulty, normVariant, parseNormTable, rescoreAssessments, rescoreStats, scorePSI, sessionDifficulty } from './norms';
+import type { NormTable } from './norms';
+import { CODING_MODE_LABELS, DEFAULT_SYMBOL_SET_ID, DISTRACTOR_LABELS, GAMES, GAME_LABELS, LAYOUT_LABELS, REACTION_MODE_LABELS, configKey, isBenchmark, isWarmUp, configLabel, dominantInput } from './config';
+import * as storage from './storage';
+import { YES_NO_KEYS, codingKey, keyLabel, showKeyHints } from './keys';
+import type { KeyBindings } from './keys';
+import { exportJson, exportSessionsCsv, exportTrialsCsv, mergeStats, previewImport, readExport, saveFile } from './transfer';
+import type { ImportPreview } from './transfer';
+import { SYMBOL_MATCH_DEFAULT_LEVEL, createStaircase, stepStaircase, symbolMatchLevel, symbolMatchLevelFor, symbolMatchMaxLevel } from './adaptive';
+import { pickDistractors, similarityMatrix, targetSimilarity } from './distractors';
+import { BENCHMARK_FORMS, benchmarkSeed, createRandom, newSeed, parseSessionCode, pickRandom, randomInt, sessionCode, shuffleArray } from './random';
+import type { Random } from './random';
+import { ASSESSMENT_CODING_SYMBOLS, ASSESSMENT_PROTOCOL_VERSION, ASSESSMENT_STEPS, ASSESSMENT_SYMBOL_MATCH, BENCHMARK_SETTINGS } from './assessment';
+import type { AssessmentRun } from './assessment';
+import { PROGRAMS, localDate, programProgress, reminderTimes } from './program';
+import type { ProgramProgress, ProgramSession } from './program';
+import { requestReminderPermission, syncReminders } from './reminders';
+import { onUpdateAvailable } from './pwa';
+import { adviceProvider, summarizeForAdvice } from './advice';
+import type { Advice, AdviceProvider } from './advice';
+import { isValidSession, sessionValidity } from './validity';
+import type { Validity } from './validity';
+import { GOAL_RANGES, clampGoal, goalStatus, practiceStreak } from './goals';
+import type { GoalStatus, Goals } from './goals';
+import { ACHIEVEMENTS, previousBest, unlockedAchievements } from './achievements';
+import { applySync, fetchAdviceAvailable, fetchRemoteProfiles, fetchRemoteSessions, remoteProfileId, syncProfile } from './sync';
+import type { RemoteProfile } from './sync';
+import { ADHERENCE_DAYS, findAnomalies, summarizeTrainee } from './coach';
+import type { Anomaly, Trainee } from './coach';
+import type { UnlockedAchievement } from './achievements';
+import { BUILT_IN_SYMBOL_SETS, MIN_SYMBOL_SET_SIZE, parseSymbols, resolveSymbolSet, symbolSetName } from './symbols';
+import type { Stimulus, SymbolSet } from './symbols';
+
+// 抹消 always uses the default icons, since its target categories depend on them
+const ALL_SYMBOLS = BUILT_IN_SYMBOL_SETS[0].symbols;
+
+// Target categories for 抹消; every symbol belongs to exactly one
+const SYMBOL_CATEGORIES = [
+  { name: '形', symbols: [Circle, Triangle, Square, Hexagon, Diamond, Heart] },
+  { name: '空', symbols: [Star, Sun, Moon, Cloud, Zap] },
+  { name: '自然', symbols: [Flame, Droplet, Leaf, Snowflake] },
 ];
 
-function shuffleArray<T>(array: T[]): T[] {
-  const newArr = [...array];
-  for (let i = newArr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newArr[i], newArr[j]] = [newArr[j], newArr[i]];
-  }
-  return newArr;
-}
-
-type Screen = 'home' | 'symbol-match' | 'coding' | 'result' | 'stats';
-type GameType = 'symbol-match' | 'coding' | null;
-type TimeLimit = 30 | 60 | 120 | 'endless';
-
-type StatEntry = {
-  id: string;
-  date: number;
-  gameType: GameType;
-  psi: number;
-  score: number;
-  mistakes: number;
-  timeLimit: TimeLimit;
-  elapsed: number;
+// Where a session's seed comes from: a fresh one, a code the user typed, or a benchmark form
+type SeedMode = 'random' | 'code' | 'benchmark';
+
+type Session = { seed: number; benchmark: string | null };
+
+// The program slot being played, if the session was started from today's menu
+type ProgramRun = { day: number; slot: number; session: ProgramSession };
+
+// What the last saved session earned, shown on the result screen
+type SyncStatus = {
+  busy: boolean;
+  error: string | null;
+  message: string | null;
+  lastSync: number | null;
 };
 
-const calculatePSI = (score: number, mistakes: number, elapsedSeconds: number, gameType: GameType) => {
-  if (elapsedSeconds < 10) return 0;
-  const rawScore = Math.max(0, score - (mistakes * 1.0));
-  const ratePerMinute = (rawScore / elapsedSeconds) * 60;
-  const mean = gameType === 'symbol-match' ? 45 : 30;
-  const sd = gameType === 'symbol-match' ? 12 : 8;
-  let psi = 100 + ((ratePerMinute - mean) / sd) * 15;
-  return Math.max(40, Math.min(160, Math.round(psi)));
+type SessionRewards = {
+  entry: StatEntry; // the session as recorded
+  previousBest: number | null;
+  achievements: UnlockedAchievement[]; // newly unlocked
+  streak: number;
+  goals: GoalStatus[];
 };
 
-function useGameTimer(timeLimit: TimeLimit, onEnd: (elapsed: number) => void) {
+type Screen = 'home' | 'symbol-match' | 'coding' | 'cancellation' | 'reaction' | 'result' | 'stats' | 'assessment' | 'assessment-result' | 'coach';
+const PLAY_SCREENS: Screen[] = ['symbol-match', 'coding', 'cancellation', 'reaction', 'assessment'];
+
+// Symbols are stored by their index in the session's symbol set so trials stay serializable.
+const symbolId = (symbols: Stimulus[], Icon: any) => symbols.indexOf(Icon);
+
+type PauseInfo = { count: number; pausedSeconds: number };
+
+// The display is refreshed several times a second, but elapsed time always
+// comes from performance.now(), so late or throttled ticks don't drift.
+const TICK_MS = 200;
+
+function useGameTimer(timeLimit: TimeLimit, onEnd: (elapsed: number, pauses: PauseInfo) => void) {
+  const limitMs = timeLimit === 'endless' ? null : timeLimit * 1000;
   const [timeDisplay, setTimeDisplay] = useState(timeLimit === 'endless' ? 0 : timeLimit);
-  const elapsedRef = useRef(0);
+  const [paused, setPaused] = useState(false);
+  const startRef = useRef(performance.now());
+  const pauseStartRef = useRef<number | null>(null);
+  const pausedMsRef = useRef(0);
+  const pauseCountRef = useRef(0);
+  const endedRef = useRef(false);
   const onEndRef = useRef(onEnd);
 
   useEffect(() => {
     onEndRef.current = onEnd;
   }, [onEnd]);
 
+  // Milliseconds since the session started, not counting pauses
+  const activeNow = useCallback(() => {
+    const now = performance.now();
+    const currentPause = pauseStartRef.current === null ? 0 : now - pauseStartRef.current;
+    return now - startRef.current - pausedMsRef.current - currentPause;
+  }, []);
+
+  const finish = useCallback(() => {
+    if (endedRef.current) return;
+    endedRef.current = true;
+    // A late tick must not stretch a timed session past its limit
+    const elapsedMs = limitMs === null ? activeNow() : Math.min(activeNow(), limitMs);
+    onEndRef.current(Math.round(elapsedMs) / 1000, {
+      count: pauseCountRef.current,
+      pausedSeconds: Math.round(pausedMsRef.current / 1000),
+    });
+  }, [limitMs, activeNow]);
+
   useEffect(() => {
+    if (paused) return;
     const timer = setInterval(() => {
-      elapsedRef.current += 1;
-      if (timeLimit !== 'endless') {
-        setTimeDisplay(t => (t as number) - 1);
+      const elapsedMs = activeNow();
+      if (limitMs === null) {
+        setTimeDisplay(Math.floor(elapsedMs / 1000));
       } else {
-        setTimeDisplay(elapsedRef.current);
+        setTimeDisplay(Math.max(0, Math.ceil((limitMs - elapsedMs) / 1000)));
+        if (elapsedMs >= limitMs) finish();
       }
-    }, 1000);
+    }, TICK_MS);
     return () => clearInterval(timer);
-  }, [timeLimit]);
+  }, [limitMs, paused, activeNow, finish]);
+
+  const pause = useCallback(() => {
+    if (pauseStartRef.current !== null || endedRef.current) return;
+    pauseStartRef.current = performance.now();
+    pauseCountRef.current += 1;
+    setPaused(true);
+  }, []);
+
+  const resume = useCallback(() => {
+    if (pauseStartRef.current === null) return;
+    pausedMsRef.current += performance.now() - pauseStartRef.current;
+    pauseStartRef.current = null;
+    setPaused(false);
+  }, []);
 
+  // Auto-pause when the tab is hidden or the Android app goes to the background
   useEffect(() => {
-    if (timeLimit !== 'endless' && timeDisplay <= 0) {
-      onEndRef.current(elapsedRef.current);
-    }
-  }, [timeDisplay, timeLimit]);
+    const onVisibility = () => { if (document.hidden) pause(); };
+    document.addEventListener('visibilitychange', onVisibility);
+    const appListener = Capacitor.isNativePlatform()
+      ? CapacitorApp.addListener('appStateChange', ({ isActive }) => { if (!isActive) pause(); })
+      : null;
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibility);
+      appListener?.then(l => l.remove());
+    };
+  }, [pause]);
+
+  return { timeDisplay, stop: finish, paused, pause, resume, activeNow };
+}
+
+// Calls onKey with KeyboardEvent.code; returning true marks the key as handled
+function useKeyHandler(onKey: (code: string) => boolean) {
+  const onKeyRef = useRef(onKey);
 
-  const stop = useCallback(() => onEndRef.current(elapsedRef.current), []);
+  useEffect(() => {
+    onKeyRef.current = onKey;
+  }, [onKey]);
+
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (onKeyRef.current(e.code)) e.preventDefault();
+    };
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+}
 
-  return { timeDisplay, stop };
+// Remembers how the most recent answer was given (mouse, touch or pen;
+// keyboard answers set it directly)
+function useInputTracker() {
+  const inputRef = useRef<InputMethod>('unknown');
+  const onPointerDown = useCallback((e: React.PointerEvent) => {
+    inputRef.current = e.pointerType === 'mouse' || e.pointerType === 'touch' || e.pointerType === 'pen' ? e.pointerType : 'unknown';
+  }, []);
+  return { inputRef, onPointerDown };
 }
 
+const initialDarkMode = (profileId: string) => {
+  const saved = storage.loadTheme(profileId);
+  if (saved) return saved === 'dark';
+  return window.matchMedia('(prefers-color-scheme: dark)').matches;
+};
+
 export default function App() {
   const [screen, setScreen] = useState<Screen>('home');
   const [gameType, setGameType] = useState<GameType>(null);
   const [timeLimit, setTimeLimit] = useState<TimeLimit>(60);
   const [symbolCount, setSymbolCount] = useState<number>(5);
+  const [symbolSetId, setSymbolSetId] = useState<string>(DEFAULT_SYMBOL_SET_ID);
+  const [targetCount, setTargetCount] = useState(symbolMatchLevel(SYMBOL_MATCH_DEFAULT_LEVEL).targets);
+  const [searchSize, setSearchSize] = useState(symbolMatchLevel(SYMBOL_MATCH_DEFAULT_LEVEL).searchSize);
+  const [distractors, setDistractors] = useState<DistractorLevel>('random');
+  const [adaptive, setAdaptive] = useState(false);
+  const [codingMode, setCodingMode] = useState<CodingMode>('reshuffle');
+  const [layout, setLayout] = useState<CancellationLayout>('structured');
+  const [reactionMode, setReactionMode] = useState<ReactionMode>('simple');
+  const [seedMode, setSeedMode] = useState<SeedMode>('random');
+  const [codeInput, setCodeInput] = useState('');
+  const [benchmarkForm, setBenchmarkForm] = useState(BENCHMARK_FORMS[0].id);
+  const [session, setSession] = useState<Session>({ seed: 0, benchmark: null });
+  const [programRun, setProgramRun] = useState<ProgramRun | null>(null);
   const [score, setScore] = useState(0);
   const [mistakes, setMistakes] = useState(0);
+  const [trials, setTrials] = useState<Trial[]>([]);
+  const [cancellation, setCancellation] = useState<NonNullable<StatEntry['cancellation']>>({ pages: 0, omissions: 0 });
   const [stats, setStats] = useState<StatEntry[]>([]);
+  // Profile whose stats have finished loading; syncing before that would treat the history as empty
+  const [loadedProfile, setLoadedProfile] = useState<string | null>(null);
+  const [syncConfig, setSyncConfig] = useState(storage.loadSyncConfig);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ busy: false, error: null, message: null, lastSync: null });
+  // Whether the sync server offers the AI coach
+  const [serverAdvice, setServerAdvice] = useState(false);
+  // Null hides the coach panels
+  const advisor = useMemo(() => adviceProvider(syncConfig, serverAdvice), [syncConfig, serverAdvice]);
+  const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [assessment, setAssessment] = useState<AssessmentRun | null>(null);
+  const [lastAssessment, setLastAssessment] = useState<Assessment | null>(null);
   const [currentPsi, setCurrentPsi] = useState(0);
+  const [currentCi, setCurrentCi] = useState<[number, number]>([0, 0]);
   const [currentElapsed, setCurrentElapsed] = useState(0);
-  const [darkMode, setDarkMode] = useState(() => {
-    const saved = localStorage.getItem('psi_theme') || localStorage.getItem('pri_theme');
-    if (saved) return saved === 'dark';
-    return window.matchMedia('(prefers-color-scheme: dark)').matches;
-  });
+  const [currentPauses, setCurrentPauses] = useState<PauseInfo>({ count: 0, pausedSeconds: 0 });
+  const [rewards, setRewards] = useState<SessionRewards | null>(null);
+  // Activates a downloaded deployment; null while the running version is current
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [profileState, setProfileState] = useState(storage.loadProfiles);
+  const profileId = profileState.activeId;
+  const activeProfile = profileState.profiles.find(p => p.id === profileId)!;
+  const [darkMode, setDarkMode] = useState(() => initialDarkMode(profileId));
+  const [settings, setSettings] = useState(() => storage.loadSettings(profileId));
+  const norms = settings.norms ?? DEFAULT_NORMS;
+  const ageBand = settings.ageBand;
+  const symbolSet = useMemo(() => resolveSymbolSet(symbolSetId, settings.customSymbolSets), [symbolSetId, settings.customSymbolSets]);
+  // A smaller set caps the coding symbol count without losing the user's choice
+  const codingCount = Math.min(symbolCount, symbolSet.symbols.length);
+  // Targets and search items are all distinct, so small sets shrink the 記号探し layout the same way
+  const matchTargets = Math.min(targetCount, symbolSet.symbols.length - 3);
+  const matchSearchSize = Math.min(searchSize, symbolSet.symbols.length - matchTargets);
+  // Adaptive sessions record the level they started at
+  const matchStart = useMemo(
+    () => adaptive ? symbolMatchLevel(symbolMatchLevelFor(matchTargets, matchSearchSize)) : { targets: matchTargets, searchSize: matchSearchSize },
+    [adaptive, matchTargets, matchSearchSize],
+  );
+  const step = assessment ? ASSESSMENT_STEPS[assessment.step] : null;
+  // Assessment blocks and benchmark forms run a fixed protocol whatever the home
+  // screen settings are; program sessions take their task settings from the
+  // program but keep the symbol set
+  const play = useMemo(() => step
+    ? {
+      timeLimit: step.timeLimit,
+      adaptive: false,
+      codingMode: 'classic' as CodingMode,
+      symbolSet: BUILT_IN_SYMBOL_SETS[0],
+      codingCount: ASSESSMENT_CODING_SYMBOLS,
+      matchStart: ASSESSMENT_SYMBOL_MATCH,
+      distractors: 'random' as DistractorLevel,
+      layout,
+      reactionMode,
+    }
+    : session.benchmark
+      ? { ...BENCHMARK_SETTINGS, adaptive: false, symbolSet: BUILT_IN_SYMBOL_SETS[0] }
+      : programRun
+        ? {
+          timeLimit: programRun.session.timeLimit as TimeLimit,
+          adaptive: false,
+          codingMode: 'reshuffle' as CodingMode,
+          symbolSet,
+          codingCount: Math.min(programRun.session.symbolCount, symbolSet.symbols.length),
+          matchStart: symbolMatchLevel(Math.min(programRun.session.matchLevel, symbolMatchMaxLevel(symbolSet.symbols.length))),
+          distractors,
+          layout: programRun.session.layout,
+          reactionMode,
+        }
+        : { timeLimit, adaptive, codingMode, symbolSet, codingCount, matchStart, distractors, layout, reactionMode },
+  [step, session.benchmark, programRun, timeLimit, adaptive, codingMode, symbolSet, codingCount, matchStart, distractors, layout, reactionMode]);
+  // 抹消 and classic coding have no adaptive mode
+  const sessionAdaptive = play.adaptive && (gameType === 'symbol-match' || (gameType === 'coding' && play.codingMode === 'reshuffle'));
+  // Recomputed when the date changes, so the menu rolls over at midnight
+  const today = localDate(new Date());
+  const programStatus = useMemo(
+    () => settings.program ? programProgress(settings.program, stats, new Date()) : null,
+    [settings.program, stats, today],
+  );
 
   useEffect(() => {
-    // Migration: pri -> psi
-    const oldStats = localStorage.getItem('pri_stats');
-    if (oldStats && !localStorage.getItem('psi_stats')) {
-      try {
-        const parsed = JSON.parse(oldStats);
-        const migrated = parsed.map((s: any) => ({
-          ...s,
-          psi: s.psi || s.pri // migration mapping
-        }));
-        localStorage.setItem('psi_stats', JSON.stringify(migrated));
-        localStorage.removeItem('pri_stats');
-        setStats(migrated);
-      } catch (e) {
-        console.error("Migration failed", e);
-      }
-    }
+    storage.saveTheme(profileId, darkMode ? 'dark' : 'white');
+  }, [profileId, darkMode]);
 
-    const oldTheme = localStorage.getItem('pri_theme');
-    if (oldTheme && !localStorage.getItem('psi_theme')) {
-      localStorage.setItem('psi_theme', oldTheme);
-      localStorage.removeItem('pri_theme');
-    }
-  }, []);
+  const toggleDarkMode = () => setDarkMode(!darkMode);
 
+  useEffect(() => onUpdateAvailable(apply => setApplyUpdate(() => apply)), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    storage.loadStats(profileId).then(({ stats, backupKey }) => {
+      if (cancelled) return;
+      setStats(stats);
+      setLoadedProfile(profileId);
+      if (backupKey) alert(`保存データの一部を読み込めませんでした。元のデータはバックアップ（${backupKey}）として保存されています。`);
+    });
+    storage.loadAssessments(profileId).then(loaded => {
+      if (!cancelled) setAssessments(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [profileId]);
+
+  // Reminders follow the active profile's program
   useEffect(() => {
-    localStorage.setItem('psi_theme', darkMode ? 'dark' : 'white');
-  }, [darkMode]);
+    const times = settings.program ? reminderTimes(settings.program, stats, new Date()) : [];
+    syncReminders(times).catch(e => console.error('Failed to schedule reminders', e));
+  }, [settings.program, stats]);
+
+  // Sync steps read the latest stats and profile through refs, since they finish after later renders
+  const statsRef = useRef(stats);
+  statsRef.current = stats;
+  const profileRef = useRef(profileId);
+  profileRef.current = profileId;
+  const syncChain = useRef(Promise.resolve());
+
+  // Sync steps run one at a time, so queueing a session never races a sync in flight
+  const runSync = useCallback((step: () => Promise<void>) => {
+    syncChain.current = syncChain.current.then(step).catch(e => console.error('Sync failed', e));
+  }, []);
 
-  const toggleDarkMode = () => setDarkMode(!darkMode);
+  const saveLocalStats = useCallback((updated: StatEntry[]) => {
+    statsRef.current = updated;
+    setStats(updated);
+    storage.saveStats(profileId, updated).catch(e => console.error('Failed to save stats', e));
+  }, [profileId]);
+
+  const syncNow = useCallback(() => runSync(async () => {
+    if (!syncConfig || loadedProfile !== profileId) return;
+    setSyncStatus(s => ({ ...s, busy: true, error: null }));
+    try {
+      const state = await storage.loadSyncState(profileId, statsRef.current);
+      const result = await syncProfile(syncConfig, activeProfile, statsRef.current, state);
+      // After a profile switch mid-sync, the next sync of this profile redoes the work
+      if (profileRef.current !== profileId) return;
+      if (result.added.length > 0 || Object.keys(result.renamed).length > 0) saveLocalStats(applySync(statsRef.current, result));
+      await storage.saveSyncState(profileId, result.state);
+      setSyncStatus(s => ({ ...s, lastSync: result.state.lastSync, message: `送信 ${result.pushed}件 · 受信 ${result.added.length}件` }));
+    } catch (e) {
+      console.error('Sync failed', e);
+      setSyncStatus(s => ({ ...s, error: '同期サーバーに接続できませんでした。記録はこの端末に保存され、次回の同期で送信されます。' }));
+    } finally {
+      setSyncStatus(s => ({ ...s, busy: false }));
+    }
+  }), [runSync, syncConfig, loadedProfile, profileId, activeProfile, saveLocalStats]);
+
+  // New sessions are queued even without a server, so they go out once one is set up
+  const persistStats = useCallback((updated: StatEntry[]) => {
+    const known = new Set(statsRef.current.map(s => s.id));
+    const added = updated.filter(s => !known.has(s.id)).map(s => s.id);
+    saveLocalStats(updated);
+    if (added.length === 0 || loadedProfile !== profileId) return;
+    runSync(async () => {
+      const state = await storage.loadSyncState(profileId, statsRef.current);
+      await storage.saveSyncState(profileId, { ...state, pending: [...new Set([...state.pending, ...added])] });
+    });
+    syncNow();
+  }, [saveLocalStats, loadedProfile, profileId, runSync, syncNow]);
+
+  useEffect(() => {
+    if (!syncConfig || loadedProfile !== profileId) return;
+    syncNow();
+    window.addEventListener('online', syncNow);
+    return () => window.removeEventListener('online', syncNow);
+  }, [syncConfig, loadedProfile, profileId, syncNow]);
 
   useEffect(() => {
-    const saved = localStorage.getItem('psi_stats');
-    if (saved) {
-      try { setStats(JSON.parse(saved)); } catch (e) { }
+    setServerAdvice(false);
+    if (!syncConfig) return;
+    let cancelled = false;
+    fetchAdviceAvailable(syncConfig)
+      .then(available => { if (!cancelled) setServerAdvice(available); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [syncConfig]);
+
+  const changeSyncConfig = (config: storage.SyncConfig | null) => {
+    storage.saveSyncConfig(config);
+    setSyncConfig(config);
+    setSyncStatus({ busy: false, error: null, message: null, lastSync: null });
+  };
+
+  const persistAssessments = useCallback((updated: Assessment[]) => {
+    setAssessments(updated);
+    storage.saveAssessments(profileId, updated).catch(e => console.error('Failed to save assessments', e));
+  }, [profileId]);
+
+  const updateProfiles = useCallback((next: storage.ProfileState) => {
+    setProfileState(next);
+    storage.saveProfiles(next);
+    if (next.activeId !== profileId) {
+      setStats([]);
+      setAssessments([]);
+      setDarkMode(initialDarkMode(next.activeId));
+      setSettings(storage.loadSettings(next.activeId));
     }
-  }, []);
+  }, [profileId]);
+
+  const switchProfile = useCallback((id: string) => {
+    updateProfiles({ ...profileState, activeId: id });
+  }, [profileState, updateProfiles]);
+
+  const createProfile = useCallback((name: string) => {
+    const profile = { id: Date.now().toString(), name, createdAt: Date.now() };
+    updateProfiles({ activeId: profile.id, profiles: [...profileState.profiles, profile] });
+  }, [profileState, updateProfiles]);
+
+  const renameProfile = useCallback((id: string, name: string) => {
+    updateProfiles({ ...profileState, profiles: profileState.profiles.map(p => p.id === id ? { ...p, name } : p) });
+  }, [profileState, updateProfiles]);
+
+  const deleteProfile = useCallback((id: string) => {
+    const profiles = profileState.profiles.filter(p => p.id !== id);
+    if (profiles.length === 0) return;
+    updateProfiles({ activeId: id === profileId ? profiles[0].id : profileId, profiles });
+    storage.deleteProfileData(id).catch(e => console.error('Failed to delete profile data', e));
+  }, [profileState, profileId, updateProfiles]);
+
+  // Another device's trainee, so the next sync pulls their history onto this one
+  const addRemoteProfile = (remote: RemoteProfile) => {
+    if (profileState.profiles.some(p => p.id === remote.id)) return;
+    updateProfiles({ activeId: remote.id, profiles: [...profileState.profiles, { id: remote.id, name: remote.name, createdAt: remote.createdAt }] });
+  };
 
-  const startGame = (type: GameType) => {
+  // Replaying keeps the previous session's seed whatever the seed setting is
+  const startGame = (type: GameType, replay?: Session, run: ProgramRun | null = null) => {
+    const next = replay ?? (
+      seedMode === 'benchmark' ? { seed: benchmarkSeed(benchmarkForm), benchmark: benchmarkForm }
+        : seedMode === 'code' ? { seed: parseSessionCode(codeInput), benchmark: null }
+          : { seed: newSeed(), benchmark: null });
+    if (next.seed === null) {
+      alert('セッションコードが正しくありません。英数字7文字で入力してください。');
+      return;
+    }
+    setSession({ seed: next.seed, benchmark: next.benchmark });
+    setProgramRun(run);
     setGameType(type);
     setScore(0);
     setMistakes(0);
+    setTrials([]);
+    setCancellation({ pages: 0, omissions: 0 });
     setScreen(type as Screen);
   };
 
-  const endGame = useCallback((finalElapsed: number) => {
-    const psi = calculatePSI(score, mistakes, finalElapsed, gameType);
-    setCurrentPsi(psi);
+  // Another round of the same kind: the same benchmark form, or fresh stimuli for
+  // a program slot, which still counts toward the program
+  const retryGame = () => {
+    if (session.benchmark) startGame(gameType, session);
+    else if (programRun) startGame(gameType, { seed: newSeed(), benchmark: null }, programRun);
+    else startGame(gameType);
+  };
+
+  const endGame = useCallback((finalElapsed: number, pauses: PauseInfo) => {
+    const { timeLimit, codingMode, symbolSet, codingCount, matchStart, distractors, layout, reactionMode } = play;
+    const fallback = gameType === 'coding' ? codingCount : gameType === 'cancellation' ? layoutDifficulty(layout) : matchStart.searchSize;
+    const difficulty = sessionDifficulty({ trials }, fallback);
+    const variant = normVariant(gameType, { codingMode, distractors });
+    const scored = isWarmUp(gameType) ? null : scorePSI(norms, score, mistakes, finalElapsed, gameType, difficulty, ageBand, variant);
+    setCurrentPsi(scored?.psi ?? 0);
+    setCurrentCi(scored?.ci ?? [0, 0]);
     setCurrentElapsed(finalElapsed);
+    setCurrentPauses(pauses);
+
+    const newStat: StatEntry = {
+      id: Date.now().toString(),
+      date: Date.now(),
+      gameType,
+      psi: scored?.psi ?? 0,
+      psiCi: scored?.ci,
+      normVersion: scored?.normVersion,
+      score,
+      mistakes,
+      timeLimit,
+      elapsed: finalElapsed,
+      pauses: pauses.count > 0 ? pauses : undefined,
+      config: {
+        symbolSet: gameType === 'symbol-match' || gameType === 'coding' ? symbolSet.id : null,
+        symbolCount: gameType === 'coding' ? codingCount : null,
+        codingMode: gameType === 'coding' ? codingMode : null,
+        searchSize: gameType === 'symbol-match' ? matchStart.searchSize : null,
+        targetCount: gameType === 'symbol-match' ? matchStart.targets : null,
+        distractors: gameType === 'symbol-match' ? distractors : null,
+        layout: gameType === 'cancellation' ? layout : null,
+        reactionMode: gameType === 'reaction' ? reactionMode : null,
+        benchmark: session.benchmark,
+        adaptive: sessionAdaptive,
+        appVersion: __APP_VERSION__,
+        inputMethod: dominantInput(trials),
+      },
+      seed: session.seed,
+      // Stopping early doesn't tick off the slot
+      program: programRun && settings.program && finalElapsed >= programRun.session.timeLimit - 0.5
+        ? { id: settings.program.programId, start: settings.program.start, day: programRun.day, slot: programRun.slot }
+        : undefined,
+      trials,
+      cancellation: gameType === 'cancellation' ? cancellation : undefined,
+    };
+    if (sessionAdaptive && trials.length > 0) {
+      const trajectory = trials.map(t => t.level ?? 0);
+      newStat.adaptive = {
+        trajectory,
+        finalLevel: trajectory[trajectory.length - 1],
+        peakLevel: Math.max(...trajectory),
+      };
+    }
 
-    if (finalElapsed >= 10) {
-      const newStat: StatEntry = {
+    // Assessment blocks are kept with the assessment rather than in the training stats
+    if (assessment && step) {
+      const blocks = step.practice ? assessment.blocks : [...assessment.blocks, newStat];
+      if (assessment.step + 1 < ASSESSMENT_STEPS.length) {
+        setAssessment({ step: assessment.step + 1, blocks });
+        setScreen('assessment');
+        return;
+      }
+      const composite = compositePSI(norms, blocks);
+      const result: Assessment = {
         id: Date.now().toString(),
         date: Date.now(),
-        gameType,
-        psi,
-        score,
-        mistakes,
-        timeLimit,
-        elapsed: finalElapsed
+        protocolVersion: ASSESSMENT_PROTOCOL_VERSION,
+        psi: composite.psi,
+        psiCi: composite.ci,
+        normVersion: composite.normVersion,
+        subtests: blocks,
       };
-      const updatedStats = [...stats, newStat];
-      setStats(updatedStats);
-      localStorage.setItem('psi_stats', JSON.stringify(updatedStats));
+      persistAssessments([...assessments, result]);
+      setAssessment(null);
+      setLastAssessment(result);
+      setScreen('assessment-result');
+      return;
+    }
+
+    if (finalElapsed >= 10) {
+      const updated = [...stats, newStat];
+      const before = new Set(unlockedAchievements(stats).map(a => a.id));
+      setRewards({
+        entry: newStat,
+        previousBest: previousBest(stats, newStat),
+        achievements: unlockedAchievements(updated).filter(a => !before.has(a.id)),
+        streak: practiceStreak(updated, new Date()).current,
+        goals: goalStatus(settings.goals, updated, new Date()),
+      });
+      persistStats(updated);
+    } else {
+      setRewards(null);
     }
     setScreen('result');
-  }, [gameType, score, mistakes, timeLimit, stats]);
+  }, [gameType, score, mistakes, trials, cancellation, play, sessionAdaptive, session, programRun, settings.program, settings.goals, norms, ageBand, stats, persistStats, assessment, step, assessments, persistAssessments]);
+
+  const startAssessment = () => {
+    setAssessment({ step: 0, blocks: [] });
+    setScreen('assessment');
+  };
+
+  const abandonGame = () => {
+    setAssessment(null);
+    setProgramRun(null);
+    setScreen('home');
+  };
 
   const clearStats = useCallback(() => {
+    statsRef.current = [];
     setStats([]);
-    localStorage.removeItem('psi_stats');
-  }, []);
+    storage.clearStats(profileId).catch(e => console.error('Failed to clear stats', e));
+  }, [profileId]);
+
+  const updateSettings = useCallback((patch: Partial<storage.Settings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    storage.saveSettings(profileId, next);
+  }, [settings, profileId]);
+
+  // Program sessions always draw fresh stimuli, whatever the seed setting is
+  const startProgramSession = () => {
+    if (!programStatus || programStatus.nextSlot === null) return;
+    const slot = programStatus.nextSlot;
+    const programSession = programStatus.today[slot];
+    startGame(programSession.gameType, { seed: newSeed(), benchmark: null }, { day: programStatus.day, slot, session: programSession });
+  };
+
+  const enrollProgram = (programId: string | null) => {
+    updateSettings({ program: programId ? { programId, start: today, reminder: null } : null });
+  };
+
+  const setReminder = async (time: string | null) => {
+    if (!settings.program) return;
+    if (time && !(await requestReminderPermission())) {
+      alert('通知が許可されていないため、リマインダーを設定できません。');
+      return;
+    }
+    updateSettings({ program: { ...settings.program, reminder: time } });
+  };
+
+  const changeNorms = useCallback((table: NormTable | null, band: string | null) => {
+    updateSettings({ norms: table, ageBand: band });
+  }, [updateSettings]);
+
+  const importStats = useCallback((added: StatEntry[], addedAssessments: Assessment[]) => {
+    if (added.length > 0) persistStats(mergeStats(stats, added));
+    if (addedAssessments.length > 0) persistAssessments([...assessments, ...addedAssessments].sort((a, b) => a.date - b.date));
+  }, [stats, assessments, persistStats, persistAssessments]);
+
+  const rescore = useCallback(() => {
+    persistStats(rescoreStats(stats, norms, ageBand));
+    persistAssessments(rescoreAssessments(assessments, norms, ageBand));
+  }, [stats, assessments, norms, ageBand, persistStats, persistAssessments]);
 
   return (
     <div className={`${darkMode ? 'dark' : ''} w-full min-h-screen`}>
@@ -176,34 +634,146 @@ export default function App() {
               onStart={startGame}
               timeLimit={timeLimit}
               setTimeLimit={setTimeLimit}
-              symbolCount={symbolCount}
+              symbolCount={codingCount}
               setSymbolCount={setSymbolCount}
+              symbolSet={symbolSet}
+              onSelectSymbolSet={setSymbolSetId}
+              customSymbolSets={settings.customSymbolSets}
+              onChangeCustomSymbolSets={(customSymbolSets: CustomSymbolSet[]) => updateSettings({ customSymbolSets })}
+              targetCount={matchTargets}
+              setTargetCount={setTargetCount}
+              searchSize={matchSearchSize}
+              setSearchSize={setSearchSize}
+              distractors={distractors}
+              setDistractors={setDistractors}
+              seedMode={seedMode}
+              setSeedMode={setSeedMode}
+              codeInput={codeInput}
+              setCodeInput={setCodeInput}
+              benchmarkForm={benchmarkForm}
+              setBenchmarkForm={setBenchmarkForm}
+              adaptive={adaptive}
+              setAdaptive={setAdaptive}
+              codingMode={codingMode}
+              setCodingMode={setCodingMode}
+              layout={layout}
+              setLayout={setLayout}
+              reactionMode={reactionMode}
+              setReactionMode={setReactionMode}
               onStats={() => setScreen('stats')}
+              onCoach={() => setScreen('coach')}
+              onAssessment={startAssessment}
+              programStatus={programStatus}
+              reminder={settings.program?.reminder ?? null}
+              onStartProgram={startProgramSession}
+              onEnrollProgram={enrollProgram}
+              onSetReminder={setReminder}
               darkMode={darkMode}
               onToggleDark={toggleDarkMode}
+              profiles={profileState.profiles}
+              activeProfile={activeProfile}
+              onSwitchProfile={switchProfile}
+              onCreateProfile={createProfile}
+              onRenameProfile={renameProfile}
+              onDeleteProfile={deleteProfile}
+              keyBindings={settings.keyBindings}
+              onChangeKeyBindings={(keyBindings: KeyBindings) => updateSettings({ keyBindings })}
             />
           )}
           {screen === 'symbol-match' && (
             <SymbolMatchGame
               key="symbol-match"
-              timeLimit={timeLimit}
+              profileName={activeProfile.name}
+              seed={session.seed}
+              symbolSet={play.symbolSet}
+              keyBindings={settings.keyBindings}
+              timeLimit={play.timeLimit}
+              adaptive={play.adaptive}
+              targetCount={play.matchStart.targets}
+              searchSize={play.matchStart.searchSize}
+              distractors={play.distractors}
+              trialLimit={step?.trialLimit}
+              showFeedback={!step || step.practice}
               score={score}
               setScore={setScore}
               mistakes={mistakes}
               setMistakes={setMistakes}
+              setTrials={setTrials}
               onEnd={endGame}
+              onAbandon={abandonGame}
             />
           )}
-          {screen === 'coding' && (
+          {screen === 'coding' && play.codingMode === 'reshuffle' && (
             <CodingGame
               key="coding"
-              timeLimit={timeLimit}
-              symbolCount={symbolCount}
+              profileName={activeProfile.name}
+              seed={session.seed}
+              symbolSet={play.symbolSet}
+              keyBindings={settings.keyBindings}
+              timeLimit={play.timeLimit}
+              adaptive={play.adaptive}
+              symbolCount={play.codingCount}
+              score={score}
+              setScore={setScore}
+              mistakes={mistakes}
+              setMistakes={setMistakes}
+              setTrials={setTrials}
+              onEnd={endGame}
+              onAbandon={abandonGame}
+            />
+          )}
+          {screen === 'coding' && play.codingMode === 'classic' && (
+            <ClassicCodingGame
+              key="coding-classic"
+              profileName={activeProfile.name}
+              seed={session.seed}
+              trialLimit={step?.trialLimit}
+              showFeedback={!step || step.practice}
+              symbolSet={play.symbolSet}
+              keyBindings={settings.keyBindings}
+              timeLimit={play.timeLimit}
+              symbolCount={play.codingCount}
+              score={score}
+              setScore={setScore}
+              mistakes={mistakes}
+              setMistakes={setMistakes}
+              setTrials={setTrials}
+              onEnd={endGame}
+              onAbandon={abandonGame}
+            />
+          )}
+          {screen === 'cancellation' && (
+            <CancellationGame
+              key="cancellation"
+              profileName={activeProfile.name}
+              seed={session.seed}
+              timeLimit={play.timeLimit}
+              layout={play.layout}
+              score={score}
+              setScore={setScore}
+              mistakes={mistakes}
+              setMistakes={setMistakes}
+              setTrials={setTrials}
+              setCancellation={setCancellation}
+              onEnd={endGame}
+              onAbandon={abandonGame}
+            />
+          )}
+          {screen === 'reaction' && (
+            <ReactionGame
+              key="reaction"
+              profileName={activeProfile.name}
+              seed={session.seed}
+              keyBindings={settings.keyBindings}
+              timeLimit={play.timeLimit}
+              mode={play.reactionMode}
               score={score}
               setScore={setScore}
               mistakes={mistakes}
               setMistakes={setMistakes}
+              setTrials={setTrials}
               onEnd={endGame}
+              onAbandon={abandonGame}
             />
           )}
           {screen === 'result' && (
@@ -212,27 +782,156 @@ export default function App() {
               score={score}
               mistakes={mistakes}
               psi={currentPsi}
+              ci={currentCi}
               elapsed={currentElapsed}
+              pauses={currentPauses}
               gameType={gameType}
-              onRetry={() => startGame(gameType)}
+              trials={trials}
+              adaptive={sessionAdaptive}
+              cancellation={gameType === 'cancellation' ? cancellation : null}
+              learning={gameType === 'coding' && play.codingMode === 'classic'}
+              reactionMode={gameType === 'reaction' ? play.reactionMode : null}
+              darkMode={darkMode}
+              sessionCode={sessionCode(session.seed)}
+              benchmark={session.benchmark}
+              rewards={rewards}
+              advisor={advisor}
+              stats={stats}
+              goals={settings.goals}
+              customSymbolSets={settings.customSymbolSets}
+              onRetry={retryGame}
+              onReplay={() => startGame(gameType, session, programRun)}
+              onNextProgramSession={programRun && programStatus?.nextSlot != null && !programStatus.finished ? startProgramSession : null}
+              onHome={() => setScreen('home')}
+            />
+          )}
+          {screen === 'assessment' && assessment && (
+            <AssessmentScreen
+              key={`assessment-${assessment.step}`}
+              step={assessment.step}
+              onStart={() => startGame(ASSESSMENT_STEPS[assessment.step].gameType, { seed: ASSESSMENT_STEPS[assessment.step].seed, benchmark: null })}
+              onCancel={abandonGame}
+            />
+          )}
+          {screen === 'assessment-result' && lastAssessment && (
+            <AssessmentResultScreen
+              key="assessment-result"
+              assessment={lastAssessment}
+              onStats={() => setScreen('stats')}
               onHome={() => setScreen('home')}
             />
           )}
+          {screen === 'coach' && (
+            <CoachScreen key="coach" syncConfig={syncConfig} customSymbolSets={settings.customSymbolSets} darkMode={darkMode} onHome={() => setScreen('home')} />
+          )}
           {screen === 'stats' && (
             <StatsScreen
               key="stats"
               stats={stats}
+              advisor={advisor}
+              assessments={assessments}
+              goals={settings.goals}
+              onChangeGoals={(goals: Goals) => updateSettings({ goals })}
               onHome={() => setScreen('home')}
               darkMode={darkMode}
               onClearStats={clearStats}
+              norms={norms}
+              ageBand={ageBand}
+              onChangeNorms={changeNorms}
+              onRescore={rescore}
+              onImport={importStats}
+              syncConfig={syncConfig}
+              syncStatus={syncStatus}
+              onChangeSyncConfig={changeSyncConfig}
+              onSync={syncNow}
+              onAddRemoteProfile={addRemoteProfile}
+              profiles={profileState.profiles}
+              profileId={profileId}
+              customSymbolSets={settings.customSymbolSets}
             />
           )}
         </AnimatePresence>
+        {/* Reloading mid-session would lose it, so the prompt waits for a menu screen */}
+        {applyUpdate && !PLAY_SCREENS.includes(screen) && (
+          <UpdatePrompt onUpdate={applyUpdate} onDismiss={() => setApplyUpdate(null)} />
+        )}
       </div>
     </div>
   );
 }
 
+function UpdatePrompt({ onUpdate, onDismiss }: { onUpdate: () => void, onDismiss: () => void }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="fixed bottom-4 inset-x-4 mx-auto max-w-md flex items-center gap-3 p-4 bg-white dark:bg-zinc-900 rounded-2xl shadow-xl border border-zinc-100 dark:border-zinc-800 z-50"
+    >
+      <p className="flex-1 text-sm font-bold text-zinc-700 dark:text-zinc-200">新しいバージョンがあります</p>
+      <button onClick={onDismiss} className="px-3 py-2 text-sm font-bold text-zinc-500 dark:text-zinc-400">
+        あとで
+      </button>
+      <button onClick={onUpdate} className="px-4 py-2 bg-indigo-600 text-white text-sm font-bold rounded-xl flex items-center gap-2">
+        <RotateCcw className="w-4 h-4" /> 更新
+      </button>
+    </motion.div>
+  );
+}
+
+const chartStyles = (darkMode: boolean) => ({
+  tooltipStyle: {
+    borderRadius: '12px', border: 'none',
+    boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.15)',
+    backgroundColor: darkMode ? '#18181b' : '#fff',
+    color: darkMode ? '#f4f4f5' : '#18181b',
+    fontSize: '12px',
+  },
+  tickStyle: { fontSize: 11, fill: darkMode ? '#a1a1aa' : '#71717a' },
+  gridColor: darkMode ? '#3f3f46' : '#e4e4e7',
+});
+
+function KeyboardSettings({ keyBindings, onChange }: { keyBindings: KeyBindings, onChange: (k: KeyBindings) => void }) {
+  const [expanded, setExpanded] = useState(false);
+  const option = (active: boolean) =>
+    `flex-1 py-2 text-xs font-bold rounded-lg transition-all ${active ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 dark:text-zinc-400'}`;
+
+  return (
+    <div className="mt-8 text-left border-t border-zinc-100 dark:border-zinc-800 pt-6">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-2 text-zinc-500 dark:text-zinc-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors w-full"
+      >
+        <Keyboard className="w-4 h-4" />
+        <span className="text-xs font-bold uppercase tracking-wider">キーボード操作</span>
+      </button>
+
+      {expanded && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          className="mt-4 space-y-3"
+        >
+          <div>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-1 px-1">記号探し（あり / なし）</p>
+            <div className="flex bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
+              <button onClick={() => onChange({ ...keyBindings, symbolMatch: 'fj' })} className={option(keyBindings.symbolMatch === 'fj')}>F / J</button>
+              <button onClick={() => onChange({ ...keyBindings, symbolMatch: 'arrows' })} className={option(keyBindings.symbolMatch === 'arrows')}>← / →</button>
+            </div>
+          </div>
+          <div>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-1 px-1">符号（ボタンの位置）</p>
+            <div className="flex bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
+              <button onClick={() => onChange({ ...keyBindings, coding: 'number-row' })} className={option(keyBindings.coding === 'number-row')}>数字キー 1〜0</button>
+              <button onClick={() => onChange({ ...keyBindings, coding: 'grid' })} className={option(keyBindings.coding === 'grid')}>QWER / ASDF 配列</button>
+            </div>
+          </div>
+          <p className="text-xs text-zinc-400 dark:text-zinc-500 px-1">Escキーで∞モードを終了できます。</p>
+        </motion.div>
+      )}
+    </div>
+  );
+}
+
 function ScientificInsights() {
   const [expanded, setExpanded] = useState(false);
 
@@ -276,7 +975,220 @@ function ScientificInsights() {
   );
 }
 
-function HomeScreen({ onStart, timeLimit, setTimeLimit, symbolCount, setSymbolCount, onStats, darkMode, onToggleDark }: any) {
+function ProfilePicker({ profiles, activeProfile, onSwitch, onCreate, onRename, onDelete }: any) {
+  const create = () => {
+    const name = prompt('新しいプロフィール名')?.trim();
+    if (name) onCreate(name);
+  };
+  const rename = (profile: storage.Profile) => {
+    const name = prompt('プロフィール名', profile.name)?.trim();
+    if (name) onRename(profile.id, name);
+  };
+  const remove = (profile: storage.Profile) => {
+    if (confirm(`「${profile.name}」とその記録を削除しますか？`)) onDelete(profile.id);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      className="mb-6 text-left bg-zinc-50 dark:bg-zinc-800 rounded-2xl p-2 border border-zinc-100 dark:border-zinc-700 space-y-1"
+    >
+      {profiles.map((p: storage.Profile) => (
+        <div key={p.id} className={`flex items-center gap-1 rounded-xl ${p.id === activeProfile.id ? 'bg-white dark:bg-zinc-700 shadow-sm' : ''}`}>
+          <button onClick={() => onSwitch(p.id)} className="flex-1 text-left px-3 py-2 text-sm font-bold text-zinc-700 dark:text-zinc-200">
+            {p.name}
+          </button>
+          <button onClick={() => rename(p)} className="p-2 text-zinc-400 hover:text-indigo-500 transition-colors" title="名前を変更">
+            <Pencil className="w-4 h-4" />
+          </button>
+          {profiles.length > 1 && (
+            <button onClick={() => remove(p)} className="p-2 text-zinc-400 hover:text-red-500 transition-colors" title="削除">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      <button onClick={create} className="w-full flex items-center gap-2 px-3 py-2 text-sm font-bold text-indigo-600 dark:text-indigo-400 rounded-xl hover:bg-white dark:hover:bg-zinc-700 transition-colors">
+        <UserPlus className="w-4 h-4" />
+        プロフィールを追加
+      </button>
+    </motion.div>
+  );
+}
+
+const programSessionDetail = (s: ProgramSession) =>
+  s.gameType === 'symbol-match' ? `レベル${s.matchLevel}`
+    : s.gameType === 'coding' ? `${s.symbolCount}種類`
+      : LAYOUT_LABELS[s.layout];
+
+function ProgramCard({ status, reminder, onStart, onEnroll, onSetReminder }: {
+  status: ProgramProgress | null,
+  reminder: string | null,
+  onStart: () => void,
+  onEnroll: (programId: string | null) => void,
+  onSetReminder: (time: string | null) => void,
+}) {
+  const [choosing, setChoosing] = useState(false);
+  const leave = () => {
+    if (confirm('プログラムを終了しますか？これまでの記録は残ります。')) onEnroll(null);
+  };
+
+  if (!status) {
+    return (
+      <div className="mb-6 text-left">
+        <button
+          onClick={() => setChoosing(!choosing)}
+          className="w-full flex items-center justify-center gap-2 py-3 bg-zinc-50 dark:bg-zinc-800 hover:bg-zinc-100 dark:hover:bg-zinc-700 border border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 rounded-2xl font-bold transition-colors"
+        >
+          <CalendarDays className="w-5 h-5" />
+          トレーニングプログラムを始める
+        </button>
+        {choosing && (
+          <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} className="mt-2 space-y-2">
+            {PROGRAMS.map(p => (
+              <button
+                key={p.id}
+                onClick={() => { onEnroll(p.id); setChoosing(false); }}
+                className="w-full text-left p-3 rounded-2xl border-2 border-zinc-200 dark:border-zinc-800 hover:border-indigo-500 dark:hover:border-indigo-500 transition-colors"
+              >
+                <div className="font-bold text-sm dark:text-zinc-200">{p.name}</div>
+                <div className="text-xs text-zinc-500 dark:text-zinc-400 mt-0.5">{p.description}</div>
+              </button>
+            ))}
+          </motion.div>
+        )}
+      </div>
+    );
+  }
+
+  const { program, day, totalDays, finished, today, done, nextSlot, streak, adherence } = status;
+  return (
+    <div className="mb-6 text-left bg-indigo-50 dark:bg-indigo-950/30 border border-indigo-200 dark:border-indigo-900 rounded-2xl p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="font-bold text-indigo-700 dark:text-indigo-300 flex items-center gap-2">
+          <CalendarDays className="w-5 h-5" />
+          {finished ? 'プログラム完了' : '今日のトレーニング'}
+        </h2>
+        <span className="text-xs font-bold text-indigo-500 dark:text-indigo-400">
+          {program.name} · {Math.min(day + 1, totalDays)}/{totalDays}日
+        </span>
+      </div>
+      <div className="h-1.5 bg-indigo-100 dark:bg-indigo-900/50 rounded-full overflow-hidden mb-3">
+        <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${Math.min(day + (finished ? 0 : 1), totalDays) / totalDays * 100}%` }} />
+      </div>
+      <div className="flex gap-4 mb-3 text-sm">
+        <span className="flex items-center gap-1 font-bold text-amber-600 dark:text-amber-400">
+          <Flame className="w-4 h-4" />
+          連続 {streak}日
+        </span>
+        <span className="text-zinc-500 dark:text-zinc-400">実施率 <span className="font-bold text-zinc-700 dark:text-zinc-200">{adherence === null ? '—' : `${adherence}%`}</span></span>
+      </div>
+
+      {!finished && (
+        <>
+          <ul className="space-y-1 mb-3">
+            {today.map((s, slot) => (
+              <li key={slot} className={`flex items-center gap-2 text-sm ${done[slot] ? 'text-zinc-400 dark:text-zinc-500 line-through' : 'text-zinc-700 dark:text-zinc-200'}`}>
+                {done[slot] ? <Check className="w-4 h-4 text-emerald-500" /> : <span className="w-4 h-4 rounded-full border-2 border-zinc-300 dark:border-zinc-600" />}
+                <span className="font-bold">{GAME_LABELS[s.gameType]}</span>
+                <span className="text-xs">{s.timeLimit}s · {programSessionDetail(s)}</span>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={onStart}
+            disabled={nextSlot === null}
+            className="w-full flex items-center justify-center gap-2 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:bg-zinc-200 dark:disabled:bg-zinc-800 disabled:text-zinc-500 text-white rounded-xl font-bold transition-colors"
+          >
+            {nextSlot === null ? <><Check className="w-5 h-5" />今日のメニューは完了です</> : <><Play className="w-5 h-5" />開始（{nextSlot + 1}/{today.length}）</>}
+          </button>
+        </>
+      )}
+      {finished && (
+        <p className="text-sm text-zinc-600 dark:text-zinc-300 mb-3">{totalDays}日間のプログラムが終わりました。統計画面で変化を確認しましょう。</p>
+      )}
+
+      <div className="flex items-center gap-2 mt-3">
+        {!finished && (
+          <label className="flex items-center gap-1 text-xs text-zinc-500 dark:text-zinc-400">
+            <Bell className="w-4 h-4" />
+            <input
+              type="time"
+              value={reminder ?? ''}
+              onChange={e => onSetReminder(e.target.value || null)}
+              className="px-2 py-1 rounded-lg bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 text-zinc-900 dark:text-white"
+            />
+            {reminder ? <button onClick={() => onSetReminder(null)} className="p-1 hover:text-red-500" title="リマインダーを解除"><X className="w-3 h-3" /></button> : 'リマインダー'}
+          </label>
+        )}
+        <button onClick={leave} className="ml-auto text-xs font-bold text-zinc-400 hover:text-red-500 transition-colors">
+          {finished ? '閉じる' : 'プログラムをやめる'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function SymbolSetPicker({ symbolSet, customSets, onSelect, onChangeCustom }: {
+  symbolSet: SymbolSet,
+  customSets: CustomSymbolSet[],
+  onSelect: (id: string) => void,
+  onChangeCustom: (sets: CustomSymbolSet[]) => void,
+}) {
+  const create = () => {
+    const name = prompt('新しい記号セットの名前')?.trim();
+    if (!name) return;
+    const text = prompt(`記号を${MIN_SYMBOL_SET_SIZE}個以上入力してください（例: あいうえおかきくけこ）`);
+    if (text === null) return;
+    const symbols = parseSymbols(text);
+    if (symbols.length < MIN_SYMBOL_SET_SIZE) {
+      alert(`異なる記号が${symbols.length}個しかありません。${MIN_SYMBOL_SET_SIZE}個以上入力してください。`);
+      return;
+    }
+    const set = { id: `custom-${Date.now()}`, name, symbols };
+    onChangeCustom([...customSets, set]);
+    onSelect(set.id);
+  };
+  const remove = () => {
+    if (!confirm(`「${symbolSet.name}」を削除しますか？`)) return;
+    onChangeCustom(customSets.filter(s => s.id !== symbolSet.id));
+    onSelect(DEFAULT_SYMBOL_SET_ID);
+  };
+
+  return (
+    <div className="mb-4 text-left">
+      <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 font-medium px-1">記号セット</p>
+      <div className="flex gap-1 bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
+        <select
+          value={symbolSet.id}
+          onChange={e => onSelect(e.target.value)}
+          className="flex-1 bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white text-sm font-bold rounded-lg px-3 py-2 border-none shadow-sm"
+        >
+          {BUILT_IN_SYMBOL_SETS.map(s => <option key={s.id} value={s.id}>{s.name}（{s.symbols.length}種）</option>)}
+          {customSets.map(s => <option key={s.id} value={s.id}>{s.name}（{s.symbols.length}種）</option>)}
+        </select>
+        <button onClick={create} className="p-2 text-zinc-400 hover:text-indigo-500 transition-colors" title="記号セットを作成">
+          <Plus className="w-4 h-4" />
+        </button>
+        {symbolSet.custom && (
+          <button onClick={remove} className="p-2 text-zinc-400 hover:text-red-500 transition-colors" title="削除">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1.5 mt-2 px-1">
+        {symbolSet.symbols.map((Icon, i) => (
+          <Icon key={i} className="w-5 h-5 text-zinc-500 dark:text-zinc-400" strokeWidth={2.5} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function HomeScreen({ onStart, timeLimit, setTimeLimit, symbolCount, setSymbolCount, symbolSet, onSelectSymbolSet, customSymbolSets, onChangeCustomSymbolSets, targetCount, setTargetCount, searchSize, setSearchSize, distractors, setDistractors, seedMode, setSeedMode, codeInput, setCodeInput, benchmarkForm, setBenchmarkForm, adaptive, setAdaptive, codingMode, setCodingMode, layout, setLayout, reactionMode, setReactionMode, onStats, onCoach, onAssessment, programStatus, reminder, onStartProgram, onEnrollProgram, onSetReminder, darkMode, onToggleDark, profiles, activeProfile, onSwitchProfile, onCreateProfile, onRenameProfile, onDeleteProfile, keyBindings, onChangeKeyBindings }: any) {
+  const [showProfiles, setShowProfiles] = useState(false);
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -291,17 +1203,83 @@ function HomeScreen({ onStart, timeLimit, setTimeLimit, symbolCount, setSymbolCo
         {darkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
       </button>
 
-      <div className="mb-8">
+      <button
+        onClick={() => setShowProfiles(!showProfiles)}
+        className="absolute top-6 left-6 flex items-center gap-1.5 max-w-[8rem] px-3 py-2 rounded-xl bg-zinc-100 dark:bg-zinc-800 text-zinc-500 dark:text-zinc-400 hover:text-indigo-500 transition-colors"
+      >
+        <User className="w-4 h-4 shrink-0" />
+        <span className="text-xs font-bold truncate">{activeProfile.name}</span>
+      </button>
+
+      <div className="mb-8 mt-8">
         <h1 className="text-3xl font-bold tracking-tight mb-2 dark:text-white">PSI Training</h1>
         <p className="text-zinc-500 dark:text-zinc-400 text-sm">
           認知機能を科学的に鍛える処理速度トレーニング
         </p>
       </div>
 
+      {showProfiles && (
+        <ProfilePicker
+          profiles={profiles}
+          activeProfile={activeProfile}
+          onSwitch={(id: string) => { onSwitchProfile(id); setShowProfiles(false); }}
+          onCreate={(name: string) => { onCreateProfile(name); setShowProfiles(false); }}
+          onRename={onRenameProfile}
+          onDelete={onDeleteProfile}
+        />
+      )}
+
+      <ProgramCard status={programStatus} reminder={reminder} onStart={onStartProgram} onEnroll={onEnrollProgram} onSetReminder={onSetReminder} />
+
+      <SymbolSetPicker symbolSet={symbolSet} customSets={customSymbolSets} onSelect={onSelectSymbolSet} onChangeCustom={onChangeCustomSymbolSets} />
+
+      <div className="mb-4 text-left">
+        <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 font-medium px-1">記号探しのターゲット数 / 検索リストの長さ{adaptive && '（開始レベル）'}</p>
+        <div className="flex gap-2">
+          <div className="flex gap-1 bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
+            {[1, 2, 3, 4].filter(n => n <= symbolSet.symbols.length - 3).map(n => (
+              <button
+                key={n}
+                onClick={() => setTargetCount(n)}
+                className={`flex-1 min-w-[2rem] py-2 text-sm font-bold rounded-lg transition-all ${targetCount === n ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+              >
+                {n}
+              </button>
+            ))}
+          </div>
+          <div className="flex-1 flex flex-wrap gap-1 bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
+            {[3, 4, 5, 6, 7, 8, 9, 10].filter(n => targetCount + n <= symbolSet.symbols.length).map(n => (
+              <button
+                key={n}
+                onClick={() => setSearchSize(n)}
+                className={`flex-1 min-w-[2rem] py-2 text-sm font-bold rounded-lg transition-all ${searchSize === n ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+              >
+                {n}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="mb-4 text-left">
+        <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 font-medium px-1">記号探しの妨害刺激</p>
+        <div className="flex bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
+          {(['random', 'similar', 'confusable'] as DistractorLevel[]).map(d => (
+            <button
+              key={d}
+              onClick={() => setDistractors(d)}
+              className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${distractors === d ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+            >
+              {DISTRACTOR_LABELS[d]}
+            </button>
+          ))}
+        </div>
+      </div>
+
       <div className="mb-4 text-left">
-        <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 font-medium px-1">符号の種類数</p>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 font-medium px-1">符号の種類数{adaptive && '（開始レベル）'}</p>
         <div className="flex flex-wrap gap-1 bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
-          {Array.from({ length: ALL_SYMBOLS.length - 2 }, (_, i) => i + 3).map(n => (
+          {Array.from({ length: symbolSet.symbols.length - 2 }, (_, i) => i + 3).map(n => (
             <button
               key={n}
               onClick={() => setSymbolCount(n)}
@@ -313,6 +1291,106 @@ function HomeScreen({ onStart, timeLimit, setTimeLimit, symbolCount, setSymbolCo
         </div>
       </div>
 
+      <div className="mb-4 text-left">
+        <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 font-medium px-1">符号のモード</p>
+        <div className="flex bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
+          {(['reshuffle', 'classic'] as CodingMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setCodingMode(m)}
+              className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${codingMode === m ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+            >
+              {CODING_MODE_LABELS[m]}{m === 'classic' ? '（固定キー）' : '（毎回変更）'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-4 text-left">
+        <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 font-medium px-1">難易度</p>
+        <div className="flex bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
+          {([[false, '固定'], [true, '適応（自動調整）']] as const).map(([val, label]) => (
+            <button
+              key={label}
+              onClick={() => setAdaptive(val)}
+              className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${adaptive === val ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-4 text-left">
+        <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 font-medium px-1">抹消の配置</p>
+        <div className="flex bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
+          {(['structured', 'random'] as CancellationLayout[]).map(l => (
+            <button
+              key={l}
+              onClick={() => setLayout(l)}
+              className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${layout === l ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+            >
+              {LAYOUT_LABELS[l]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-4 text-left">
+        <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 font-medium px-1">反応課題</p>
+        <div className="flex bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
+          {(['simple', 'choice2', 'choice4', 'go-nogo'] as ReactionMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setReactionMode(m)}
+              className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${reactionMode === m ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+            >
+              {REACTION_MODE_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-4 text-left">
+        <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 font-medium px-1">出題パターン</p>
+        <div className="flex bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
+          {([['random', '毎回ランダム'], ['code', 'コード指定'], ['benchmark', 'ベンチマーク']] as [SeedMode, string][]).map(([m, label]) => (
+            <button
+              key={m}
+              onClick={() => setSeedMode(m)}
+              className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${seedMode === m ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {seedMode === 'code' && (
+          <input
+            value={codeInput}
+            onChange={e => setCodeInput(e.target.value)}
+            placeholder="セッションコード（例: 1A2B3C4）"
+            maxLength={9}
+            className="mt-2 w-full px-3 py-2 rounded-xl bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 text-sm font-mono uppercase text-zinc-900 dark:text-white"
+          />
+        )}
+        {seedMode === 'benchmark' && (
+          <>
+            <div className="flex mt-2 bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
+              {BENCHMARK_FORMS.map(f => (
+                <button
+                  key={f.id}
+                  onClick={() => setBenchmarkForm(f.id)}
+                  className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${benchmarkForm === f.id ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-300'}`}
+                >
+                  {f.id}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1 px-1">定期評価用の固定問題です。記号セット・難易度・制限時間（{BENCHMARK_SETTINGS.timeLimit}秒）も固定で、この画面の設定は使われません。トレーニングの平均・推移や目標・実績には含めず、統計の条件別一覧で別に確認できます。</p>
+          </>
+        )}
+      </div>
+
       <div className="mb-6 text-left">
         <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 font-medium px-1">制限時間</p>
         <div className="flex bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl">
@@ -354,55 +1432,127 @@ function HomeScreen({ onStart, timeLimit, setTimeLimit, symbolCount, setSymbolCo
             <Play className="w-5 h-5 ml-1" />
           </div>
         </button>
+
+        <button
+          onClick={() => onStart('cancellation')}
+          className="w-full group relative flex items-center justify-between p-4 rounded-2xl border-2 border-zinc-200 dark:border-zinc-800 hover:border-amber-500 dark:hover:border-amber-500 hover:bg-amber-50 dark:hover:bg-amber-950/30 transition-all text-left"
+        >
+          <div>
+            <h2 className="font-semibold text-lg group-hover:text-amber-700 dark:text-zinc-200 dark:group-hover:text-amber-400">抹消</h2>
+            <p className="text-sm text-zinc-500 dark:text-zinc-400 group-hover:text-amber-600/80 dark:group-hover:text-amber-400/80">画面全体を走査して目標をすばやく見つけ出します。</p>
+          </div>
+          <div className="w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 group-hover:bg-amber-100 dark:group-hover:bg-amber-900/50 flex items-center justify-center text-zinc-400 dark:text-zinc-500 group-hover:text-amber-600 dark:group-hover:text-amber-400 transition-colors shrink-0 ml-4">
+            <Play className="w-5 h-5 ml-1" />
+          </div>
+        </button>
+
+        <button
+          onClick={() => onStart('reaction')}
+          className="w-full group relative flex items-center justify-between p-4 rounded-2xl border-2 border-zinc-200 dark:border-zinc-800 hover:border-sky-500 dark:hover:border-sky-500 hover:bg-sky-50 dark:hover:bg-sky-950/30 transition-all text-left"
+        >
+          <div>
+            <h2 className="font-semibold text-lg group-hover:text-sky-700 dark:text-zinc-200 dark:group-hover:text-sky-400">反応時間 <span className="text-xs font-bold text-zinc-400">ウォームアップ</span></h2>
+            <p className="text-sm text-zinc-500 dark:text-zinc-400 group-hover:text-sky-600/80 dark:group-hover:text-sky-400/80">純粋な反応・判断の速さを測り、PSIの変化と比べます。</p>
+          </div>
+          <div className="w-10 h-10 rounded-full bg-zinc-100 dark:bg-zinc-800 group-hover:bg-sky-100 dark:group-hover:bg-sky-900/50 flex items-center justify-center text-zinc-400 dark:text-zinc-500 group-hover:text-sky-600 dark:group-hover:text-sky-400 transition-colors shrink-0 ml-4">
+            <Play className="w-5 h-5 ml-1" />
+          </div>
+        </button>
       </div>
 
+      <button
+        onClick={onAssessment}
+        className="mt-6 w-full flex items-center justify-center gap-2 py-3 bg-indigo-50 dark:bg-indigo-950/30 hover:bg-indigo-100 dark:hover:bg-indigo-900/40 border border-indigo-200 dark:border-indigo-900 text-indigo-700 dark:text-indigo-300 rounded-2xl font-bold transition-colors"
+      >
+        <ClipboardCheck className="w-5 h-5" />
+        PSI評価（約6分）
+      </button>
+
       <button
         onClick={onStats}
-        className="mt-6 w-full flex items-center justify-center gap-2 py-3 bg-zinc-50 dark:bg-zinc-800 hover:bg-zinc-100 dark:hover:bg-zinc-700 border border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 rounded-2xl font-bold transition-colors"
+        className="mt-3 w-full flex items-center justify-center gap-2 py-3 bg-zinc-50 dark:bg-zinc-800 hover:bg-zinc-100 dark:hover:bg-zinc-700 border border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 rounded-2xl font-bold transition-colors"
       >
         <BarChart2 className="w-5 h-5" />
         トレーニング統計
       </button>
 
+      <button
+        onClick={onCoach}
+        className="mt-3 w-full flex items-center justify-center gap-2 py-3 bg-zinc-50 dark:bg-zinc-800 hover:bg-zinc-100 dark:hover:bg-zinc-700 border border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 rounded-2xl font-bold transition-colors"
+      >
+        <Users className="w-5 h-5" />
+        コーチ用ダッシュボード
+      </button>
+
+      <KeyboardSettings keyBindings={keyBindings} onChange={onChangeKeyBindings} />
       <ScientificInsights />
     </motion.div>
   );
 }
 
-function SymbolMatchGame({ timeLimit, score, setScore, mistakes, setMistakes, onEnd }: any) {
-  const { timeDisplay, stop } = useGameTimer(timeLimit, onEnd);
+function SymbolMatchGame({ profileName, seed, symbolSet, keyBindings, timeLimit, adaptive, targetCount, searchSize, distractors, trialLimit, showFeedback = true, score, setScore, mistakes, setMistakes, setTrials, onEnd, onAbandon }: any) {
+  const { timeDisplay, stop, paused, pause, resume, activeNow } = useGameTimer(timeLimit, onEnd);
+  const shownAtRef = useRef(0);
+  const { inputRef, onPointerDown } = useInputTracker();
+  const symbols: Stimulus[] = symbolSet.symbols;
+  const similarity = useMemo(() => similarityMatrix(symbolSet.traits), [symbolSet]);
+  const startLevel = symbolMatchLevelFor(targetCount, searchSize);
+  const staircaseRef = useRef(createStaircase(startLevel, 1, symbolMatchMaxLevel(symbols.length)));
+  const [level, setLevel] = useState(startLevel);
   const [round, setRound] = useState(0);
-  const [targets, setTargets] = useState<any[]>([]);
-  const [searchGroup, setSearchGroup] = useState<any[]>([]);
+  // Indices into the symbol set
+  const [targets, setTargets] = useState<number[]>([]);
+  const [searchGroup, setSearchGroup] = useState<number[]>([]);
   const [isMatch, setIsMatch] = useState(false);
   const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null);
 
+  // Practice blocks end after a fixed number of trials
   useEffect(() => {
-    generateRound();
+    if (trialLimit && round >= trialLimit) stop();
+    else generateRound();
   }, [round]);
 
   const generateRound = () => {
-    const shuffled = shuffleArray([...ALL_SYMBOLS]);
-    const newTargets = shuffled.slice(0, 2);
-    const match = Math.random() > 0.5;
-    let newSearchGroup = [];
-
-    if (match) {
-      const targetToInclude = newTargets[Math.floor(Math.random() * 2)];
-      const others = shuffled.slice(2, 6);
-      newSearchGroup = shuffleArray([targetToInclude, ...others]);
-    } else {
-      newSearchGroup = shuffled.slice(2, 7);
-    }
+    const nextLevel = adaptive ? staircaseRef.current.level : startLevel;
+    const size = adaptive ? symbolMatchLevel(nextLevel) : { targets: targetCount, searchSize };
+    const random = createRandom(seed, round);
+    const newTargets = shuffleArray(random, symbols.map((_, i) => i)).slice(0, size.targets);
+    const match = random() > 0.5;
+    const lures = pickDistractors(random, similarity, newTargets, match ? size.searchSize - 1 : size.searchSize, distractors);
+    const newSearchGroup = match
+      ? shuffleArray(random, [pickRandom(random, newTargets), ...lures])
+      : shuffleArray(random, lures);
 
     setTargets(newTargets);
     setSearchGroup(newSearchGroup);
     setIsMatch(match);
+    setLevel(nextLevel);
     setFeedback(null);
+    shownAtRef.current = activeNow();
   };
 
   const handleAnswer = (userSaysMatch: boolean) => {
-    if (userSaysMatch === isMatch) {
+    // Ignore repeated presses while the feedback overlay is showing
+    if (feedback || paused) return;
+    const respondedAt = activeNow();
+    const correct = userSaysMatch === isMatch;
+    setTrials((t: Trial[]) => [...t, {
+      gameType: 'symbol-match',
+      index: round,
+      shownAt: Math.round(shownAtRef.current),
+      respondedAt: Math.round(respondedAt),
+      rt: Math.round(respondedAt - shownAtRef.current),
+      correct,
+      targets,
+      searchGroup,
+      isMatch,
+      answer: userSaysMatch,
+      similarity: searchGroup.map(id => targetSimilarity(similarity, targets, id)),
+      input: inputRef.current,
+      level: adaptive ? level : undefined,
+    }]);
+    if (adaptive) staircaseRef.current = stepStaircase(staircaseRef.current, correct);
+    if (correct) {
       setScore((s: number) => s + 1);
       setFeedback('correct');
     } else {
@@ -414,8 +1564,17 @@ function SymbolMatchGame({ timeLimit, score, setScore, mistakes, setMistakes, on
     }, 150);
   };
 
+  const yesNo = YES_NO_KEYS[keyBindings.symbolMatch as keyof typeof YES_NO_KEYS];
+  const hints = showKeyHints();
+  useKeyHandler(code => {
+    if (code !== yesNo.yes && code !== yesNo.no) return false;
+    inputRef.current = 'keyboard';
+    handleAnswer(code === yesNo.yes);
+    return true;
+  });
+
   return (
-    <GameContainer timeLimit={timeLimit} timeDisplay={timeDisplay} score={score} mistakes={mistakes} title="記号探し" onStop={stop}>
+    <GameContainer profileName={profileName} timeLimit={timeLimit} timeDisplay={timeDisplay} score={score} mistakes={mistakes} title="記号探し" level={adaptive ? level : null} showScore={showFeedback} onStop={stop} paused={paused} onPause={pause} onResume={resume} onAbandon={onAbandon} onPointerDown={onPointerDown}>
       <div className="flex-1 flex flex-col items-center justify-center w-full">
         <AnimatePresence mode="popLayout">
           <motion.div
@@ -430,19 +1589,21 @@ function SymbolMatchGame({ timeLimit, score, setScore, mistakes, setMistakes, on
             <div className="mb-8">
               <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 text-center font-medium">ターゲット</p>
               <div className="flex gap-4 p-4 bg-white dark:bg-zinc-800 rounded-2xl border-2 border-zinc-200 dark:border-zinc-700 shadow-sm">
-                {targets.map((Icon, i) => (
-                  <Icon key={i} className="w-10 h-10 text-zinc-800 dark:text-zinc-100" strokeWidth={2.5} />
-                ))}
+                {targets.map((id, i) => {
+                  const Icon = symbols[id];
+                  return <Icon key={i} className="w-10 h-10 text-zinc-800 dark:text-zinc-100" strokeWidth={2.5} />;
+                })}
               </div>
             </div>
 
             {/* Search Group */}
             <div className="mb-12 w-full">
               <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 text-center font-medium">検索リスト</p>
-              <div className="flex justify-center gap-3 sm:gap-6 p-6 bg-white dark:bg-zinc-800 rounded-2xl border-2 border-zinc-200 dark:border-zinc-700 shadow-sm w-full">
-                {searchGroup.map((Icon, i) => (
-                  <Icon key={i} className="w-8 h-8 sm:w-10 sm:h-10 text-zinc-800 dark:text-zinc-100" strokeWidth={2.5} />
-                ))}
+              <div className="flex flex-wrap justify-center gap-3 sm:gap-6 p-6 bg-white dark:bg-zinc-800 rounded-2xl border-2 border-zinc-200 dark:border-zinc-700 shadow-sm w-full">
+                {searchGroup.map((id, i) => {
+                  const Icon = symbols[id];
+                  return <Icon key={i} className="w-8 h-8 sm:w-10 sm:h-10 text-zinc-800 dark:text-zinc-100" strokeWidth={2.5} />;
+                })}
               </div>
             </div>
 
@@ -453,12 +1614,14 @@ function SymbolMatchGame({ timeLimit, score, setScore, mistakes, setMistakes, on
                 className="flex-1 py-4 bg-indigo-600 hover:bg-indigo-700 text-white rounded-2xl font-bold text-lg transition-colors active:scale-95 shadow-sm"
               >
                 あり
+                {hints && <kbd className="ml-2 text-xs font-mono opacity-70">{keyLabel(yesNo.yes)}</kbd>}
               </button>
               <button
                 onClick={() => handleAnswer(false)}
                 className="flex-1 py-4 bg-rose-500 hover:bg-rose-600 text-white rounded-2xl font-bold text-lg transition-colors active:scale-95 shadow-sm"
               >
                 なし
+                {hints && <kbd className="ml-2 text-xs font-mono opacity-70">{keyLabel(yesNo.no)}</kbd>}
               </button>
             </div>
           </motion.div>
@@ -467,7 +1630,7 @@ function SymbolMatchGame({ timeLimit, score, setScore, mistakes, setMistakes, on
 
       {/* Feedback Overlay */}
       <AnimatePresence>
-        {feedback && (
+        {showFeedback && feedback && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 0.2 }}
@@ -481,8 +1644,14 @@ function SymbolMatchGame({ timeLimit, score, setScore, mistakes, setMistakes, on
   );
 }
 
-function CodingGame({ timeLimit, symbolCount = 5, score, setScore, mistakes, setMistakes, onEnd }: any) {
-  const { timeDisplay, stop } = useGameTimer(timeLimit, onEnd);
+function CodingGame({ profileName, seed, symbolSet, keyBindings, timeLimit, adaptive, symbolCount: startCount = 5, score, setScore, mistakes, setMistakes, setTrials, onEnd, onAbandon }: any) {
+  const { timeDisplay, stop, paused, pause, resume, activeNow } = useGameTimer(timeLimit, onEnd);
+  const shownAtRef = useRef(0);
+  const { inputRef, onPointerDown } = useInputTracker();
+  // In adaptive mode the staircase level is the symbol count itself
+  const symbols: Stimulus[] = symbolSet.symbols;
+  const staircaseRef = useRef(createStaircase(startCount, 3, symbols.length));
+  const [symbolCount, setSymbolCount] = useState<number>(startCount);
   const [round, setRound] = useState(0);
   const [map, setMap] = useState<Map<number, any>>(new Map());
   const [buttonOrder, setButtonOrder] = useState<number[]>([]);
@@ -496,29 +1665,53 @@ function CodingGame({ timeLimit, symbolCount = 5, score, setScore, mistakes, set
   }, [round]);
 
   const generateRound = () => {
+    const count = adaptive ? staircaseRef.current.level : startCount;
     // Reshuffle map and button order every round for higher difficulty
-    const nums = Array.from({ length: symbolCount }, (_, i) => i + 1);
-    const shuffled = shuffleArray([...ALL_SYMBOLS]);
+    const nums = Array.from({ length: count }, (_, i) => i + 1);
+    const random = createRandom(seed, round);
+    const shuffled = shuffleArray(random, symbols);
     const newMap = new Map();
-    for (let i = 1; i <= symbolCount; i++) {
+    for (let i = 1; i <= count; i++) {
       newMap.set(i, shuffled[i - 1]);
     }
     setMap(newMap);
-    setButtonOrder(shuffleArray([...nums]));
-    setTableOrder(shuffleArray([...nums]));
+    setSymbolCount(count);
+    setButtonOrder(shuffleArray(random, nums));
+    setTableOrder(shuffleArray(random, nums));
 
     // Avoid repeating the same number
     let nextNum;
     do {
-      nextNum = Math.floor(Math.random() * symbolCount) + 1;
-    } while (nextNum === currentNumber && symbolCount > 1);
+      nextNum = randomInt(random, count) + 1;
+    } while (nextNum === currentNumber && count > 1);
 
     setCurrentNumber(nextNum);
     setFeedback(null);
+    shownAtRef.current = activeNow();
   };
 
   const handleAnswer = (num: number) => {
-    if (num === currentNumber) {
+    // Ignore repeated presses while the feedback overlay is showing
+    if (feedback || paused) return;
+    const respondedAt = activeNow();
+    const correct = num === currentNumber;
+    setTrials((t: Trial[]) => [...t, {
+      gameType: 'coding',
+      index: round,
+      shownAt: Math.round(shownAtRef.current),
+      respondedAt: Math.round(respondedAt),
+      rt: Math.round(respondedAt - shownAtRef.current),
+      correct,
+      mapping: Array.from({ length: symbolCount }, (_, i) => symbolId(symbols, map.get(i + 1))),
+      tableOrder,
+      buttonOrder,
+      target: currentNumber,
+      answer: num,
+      input: inputRef.current,
+      level: adaptive ? symbolCount : undefined,
+    }]);
+    if (adaptive) staircaseRef.current = stepStaircase(staircaseRef.current, correct);
+    if (correct) {
       setScore((s: number) => s + 1);
       setFeedback('correct');
     } else {
@@ -530,10 +1723,20 @@ function CodingGame({ timeLimit, symbolCount = 5, score, setScore, mistakes, set
     }, 100);
   };
 
+  const columns = symbolCount <= 5 ? symbolCount : Math.ceil(symbolCount / 2);
+  const hints = showKeyHints();
+  useKeyHandler(code => {
+    const position = buttonOrder.findIndex((_, i) => codingKey(keyBindings.coding, i, columns) === code);
+    if (position === -1) return false;
+    inputRef.current = 'keyboard';
+    handleAnswer(buttonOrder[position]);
+    return true;
+  });
+
   if (map.size === 0) return null;
 
   return (
-    <GameContainer timeLimit={timeLimit} timeDisplay={timeDisplay} score={score} mistakes={mistakes} title="符号" onStop={stop}>
+    <GameContainer profileName={profileName} timeLimit={timeLimit} timeDisplay={timeDisplay} score={score} mistakes={mistakes} title="符号" level={adaptive ? symbolCount : null} onStop={stop} paused={paused} onPause={pause} onResume={resume} onAbandon={onAbandon} onPointerDown={onPointerDown}>
       <div className="flex-1 flex flex-col items-center justify-between w-full py-4">
 
         {/* Current Target */}
@@ -557,7 +1760,7 @@ function CodingGame({ timeLimit, symbolCount = 5, score, setScore, mistakes, set
           <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 text-center font-medium">対応表</p>
           <div
             className="grid gap-2 p-4 bg-white dark:bg-zinc-800 rounded-2xl border-2 border-zinc-200 dark:border-zinc-700 shadow-sm"
-            style={{ gridTemplateColumns: `repeat(${symbolCount <= 5 ? symbolCount : Math.ceil(symbolCount / 2)}, minmax(0, 1fr))` }}
+            style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
           >
             {tableOrder.map((num) => {
               const Icon = map.get(num);
@@ -577,16 +1780,18 @@ function CodingGame({ timeLimit, symbolCount = 5, score, setScore, mistakes, set
         <div className="w-full mt-6">
           <div
             className="grid gap-2"
-            style={{ gridTemplateColumns: `repeat(${symbolCount <= 5 ? symbolCount : Math.ceil(symbolCount / 2)}, minmax(0, 1fr))` }}
+            style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
           >
-            {buttonOrder.map((num) => {
+            {buttonOrder.map((num, position) => {
               const Icon = map.get(num);
+              const key = hints ? codingKey(keyBindings.coding, position, columns) : null;
               return (
                 <button
                   key={num}
                   onClick={() => handleAnswer(num)}
-                  className="aspect-square flex items-center justify-center bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 hover:border-emerald-500 dark:hover:border-emerald-500 hover:bg-emerald-50 dark:hover:bg-emerald-950/30 rounded-2xl transition-all active:scale-90 shadow-sm"
+                  className="relative aspect-square flex items-center justify-center bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 hover:border-emerald-500 dark:hover:border-emerald-500 hover:bg-emerald-50 dark:hover:bg-emerald-950/30 rounded-2xl transition-all active:scale-90 shadow-sm"
                 >
+                  {key && <kbd className="absolute top-1 left-1.5 text-[10px] font-mono font-bold text-zinc-400 dark:text-zinc-500">{keyLabel(key)}</kbd>}
                   <Icon className="w-6 h-6 sm:w-8 sm:h-8 text-zinc-800 dark:text-zinc-100" strokeWidth={2.5} />
                 </button>
               );
@@ -611,9 +1816,476 @@ function CodingGame({ timeLimit, symbolCount = 5, score, setScore, mistakes, set
   );
 }
 
-function GameContainer({ children, timeLimit, timeDisplay, score, mistakes, title, onStop }: any) {
+const CLASSIC_ROW_LENGTH = 10;
+
+// A row of numbers to work through, without repeating the same number twice in a row
+const classicRow = (random: Random, count: number, previous: number | null) => {
+  const row: number[] = [];
+  let last = previous;
+  for (let i = 0; i < CLASSIC_ROW_LENGTH; i++) {
+    let num;
+    do {
+      num = randomInt(random, count) + 1;
+    } while (num === last && count > 1);
+    row.push(num);
+    last = num;
+  }
+  return row;
+};
+
+// Classic digit-symbol coding: one key for the whole session, worked through
+// row by row like the paper test, so the mapping can be learned
+function ClassicCodingGame({ profileName, seed, trialLimit, showFeedback = true, symbolSet, keyBindings, timeLimit, symbolCount, score, setScore, mistakes, setMistakes, setTrials, onEnd, onAbandon }: any) {
+  const { timeDisplay, stop, paused, pause, resume, activeNow } = useGameTimer(timeLimit, onEnd);
+  const shownAtRef = useRef(0);
+  const trialIndexRef = useRef(0);
+  const { inputRef, onPointerDown } = useInputTracker();
+  const symbols: Stimulus[] = symbolSet.symbols;
+  // The key comes from the session seed itself, each row from its own stream
+  const [{ mapping, buttonOrder }] = useState(() => {
+    const random = createRandom(seed);
+    return {
+      mapping: shuffleArray(random, symbols).slice(0, symbolCount),
+      buttonOrder: shuffleArray(random, Array.from({ length: symbolCount }, (_, i) => i + 1)),
+    };
+  });
+  const [rowNumber, setRowNumber] = useState(0);
+  const [row, setRow] = useState(() => classicRow(createRandom(seed, 0), symbolCount, null));
+  const [answers, setAnswers] = useState<number[]>([]);
+
+  const tableOrder = mapping.map((_, i) => i + 1);
+
+  // Practice blocks end after a fixed number of trials
+  useEffect(() => {
+    if (trialLimit && score + mistakes >= trialLimit) stop();
+  }, [score, mistakes]);
+
+  const handleAnswer = (num: number) => {
+    if (paused) return;
+    const respondedAt = activeNow();
+    const target = row[answers.length];
+    const correct = num === target;
+    setTrials((t: Trial[]) => [...t, {
+      gameType: 'coding',
+      mode: 'classic',
+      index: trialIndexRef.current,
+      shownAt: Math.round(shownAtRef.current),
+      respondedAt: Math.round(respondedAt),
+      rt: Math.round(respondedAt - shownAtRef.current),
+      correct,
+      mapping: mapping.map(Icon => symbolId(symbols, Icon)),
+      tableOrder,
+      buttonOrder,
+      target,
+      answer: num,
+      input: inputRef.current,
+    }]);
+    trialIndexRef.current += 1;
+    shownAtRef.current = respondedAt;
+    if (correct) {
+      setScore((s: number) => s + 1);
+    } else {
+      setMistakes((m: number) => m + 1);
+    }
+
+    if (answers.length + 1 < row.length) {
+      setAnswers([...answers, num]);
+    } else {
+      setRow(classicRow(createRandom(seed, rowNumber + 1), symbolCount, target));
+      setAnswers([]);
+      setRowNumber(r => r + 1);
+    }
+  };
+
+  const columns = symbolCount <= 5 ? symbolCount : Math.ceil(symbolCount / 2);
+  const hints = showKeyHints();
+  useKeyHandler(code => {
+    const position = buttonOrder.findIndex((_, i) => codingKey(keyBindings.coding, i, columns) === code);
+    if (position === -1) return false;
+    inputRef.current = 'keyboard';
+    handleAnswer(buttonOrder[position]);
+    return true;
+  });
+
+  return (
+    <GameContainer profileName={profileName} timeLimit={timeLimit} timeDisplay={timeDisplay} score={score} mistakes={mistakes} title="符号（クラシック）" level={null} showScore={showFeedback} onStop={stop} paused={paused} onPause={pause} onResume={resume} onAbandon={onAbandon} onPointerDown={onPointerDown}>
+      <div className="flex-1 flex flex-col items-center justify-between w-full py-4">
+
+        {/* Key Map */}
+        <div className="w-full mb-4">
+          <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 text-center font-medium">対応表</p>
+          <div
+            className="grid gap-2 p-4 bg-white dark:bg-zinc-800 rounded-2xl border-2 border-zinc-200 dark:border-zinc-700 shadow-sm"
+            style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+          >
+            {mapping.map((Icon, i) => (
+              <div key={i} className="flex flex-col items-center">
+                <span className="text-xl font-mono font-black text-zinc-400 dark:text-zinc-500 mb-1">{i + 1}</span>
+                <div className="w-14 h-14 flex items-center justify-center bg-zinc-50 dark:bg-zinc-900 rounded-xl border-2 border-zinc-100 dark:border-zinc-700">
+                  <Icon className="w-8 h-8 text-zinc-800 dark:text-zinc-100" strokeWidth={3} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Answer Row */}
+        <div className="flex-1 flex items-center w-full">
+          <AnimatePresence mode="popLayout">
+            <motion.div
+              key={rowNumber}
+              initial={{ opacity: 0, x: 40 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -40 }}
+              transition={{ duration: 0.15 }}
+              className="grid gap-1 w-full"
+              style={{ gridTemplateColumns: `repeat(${CLASSIC_ROW_LENGTH}, minmax(0, 1fr))` }}
+            >
+              {row.map((num, slot) => {
+                const answer = answers[slot];
+                const Icon = answer === undefined ? null : mapping[answer - 1];
+                const current = slot === answers.length;
+                return (
+                  <div key={slot} className="flex flex-col items-center">
+                    <span className={`text-lg sm:text-2xl font-mono font-black mb-1 ${current ? 'text-emerald-600 dark:text-emerald-400' : 'text-zinc-400 dark:text-zinc-500'}`}>{num}</span>
+                    <div className={`w-full aspect-square flex items-center justify-center rounded-lg border-2 ${current ? 'border-emerald-500' : 'border-zinc-200 dark:border-zinc-700'}`}>
+                      {Icon && <Icon className={`w-4 h-4 sm:w-6 sm:h-6 ${answer === num || !showFeedback ? 'text-zinc-800 dark:text-zinc-100' : 'text-red-500'}`} strokeWidth={2.5} />}
+                    </div>
+                  </div>
+                );
+              })}
+            </motion.div>
+          </AnimatePresence>
+        </div>
+
+        {/* Input Buttons */}
+        <div className="w-full mt-6">
+          <div
+            className="grid gap-2"
+            style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+          >
+            {buttonOrder.map((num, position) => {
+              const Icon = mapping[num - 1];
+              const key = hints ? codingKey(keyBindings.coding, position, columns) : null;
+              return (
+                <button
+                  key={num}
+                  onClick={() => handleAnswer(num)}
+                  className="relative aspect-square flex items-center justify-center bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 hover:border-emerald-500 dark:hover:border-emerald-500 hover:bg-emerald-50 dark:hover:bg-emerald-950/30 rounded-2xl transition-all active:scale-90 shadow-sm"
+                >
+                  {key && <kbd className="absolute top-1 left-1.5 text-[10px] font-mono font-bold text-zinc-400 dark:text-zinc-500">{keyLabel(key)}</kbd>}
+                  <Icon className="w-6 h-6 sm:w-8 sm:h-8 text-zinc-800 dark:text-zinc-100" strokeWidth={2.5} />
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </GameContainer>
+  );
+}
+
+const CANCELLATION_COLUMNS = 8;
+const CANCELLATION_ROWS = 6;
+const CANCELLATION_TARGETS = 12;
+// Random layout: how far each icon may drift from its cell centre, in % of the icon size
+const CANCELLATION_JITTER = 35;
+
+type CancellationItem = { Icon: any, target: boolean, dx: number, dy: number };
+
+function CancellationGame({ profileName, seed, timeLimit, layout, score, setScore, mistakes, setMistakes, setTrials, setCancellation, onEnd, onAbandon }: any) {
+  const { timeDisplay, stop, paused, pause, resume, activeNow } = useGameTimer(timeLimit, onEnd);
+  const { inputRef, onPointerDown } = useInputTracker();
+  // Each tap is timed from the previous tap, or from the page appearing
+  const lastTapRef = useRef(0);
+  const tapIndexRef = useRef(0);
+  const [page, setPage] = useState(0);
+  const [category, setCategory] = useState(0);
+  const [items, setItems] = useState<CancellationItem[]>([]);
+  const [marked, setMarked] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    generatePage();
+  }, [page]);
+
+  const generatePage = () => {
+    const random = createRandom(seed, page);
+    const nextCategory = randomInt(random, SYMBOL_CATEGORIES.length);
+    const targets = SYMBOL_CATEGORIES[nextCategory].symbols;
+    const distractors = ALL_SYMBOLS.filter(Icon => !targets.includes(Icon));
+    const jitter = () => layout === 'random' ? (random() * 2 - 1) * CANCELLATION_JITTER : 0;
+    const newItems = Array.from({ length: CANCELLATION_COLUMNS * CANCELLATION_ROWS }, (_, i) => {
+      const target = i < CANCELLATION_TARGETS;
+      return { Icon: pickRandom(random, target ? targets : distractors), target, dx: jitter(), dy: jitter() };
+    });
+
+    setCategory(nextCategory);
+    setItems(shuffleArray(random, newItems));
+    setMarked(new Set());
+    lastTapRef.current = activeNow();
+  };
+
+  const nextPage = (markedNow: Set<number>) => {
+    const missed = items.filter((item, i) => item.target && !markedNow.has(i)).length;
+    setCancellation((c: NonNullable<StatEntry['cancellation']>) => ({ pages: c.pages + 1, omissions: c.omissions + missed }));
+    setPage(p => p + 1);
+  };
+
+  // Marks stay neutral so the page itself gives no hint of which taps were right
+  const handleTap = (position: number) => {
+    if (paused || marked.has(position)) return;
+    const respondedAt = activeNow();
+    const item = items[position];
+    setTrials((t: Trial[]) => [...t, {
+      gameType: 'cancellation',
+      index: tapIndexRef.current,
+      shownAt: Math.round(lastTapRef.current),
+      respondedAt: Math.round(respondedAt),
+      rt: Math.round(respondedAt - lastTapRef.current),
+      correct: item.target,
+      page,
+      category,
+      layout,
+      position,
+      answer: symbolId(ALL_SYMBOLS, item.Icon),
+      input: inputRef.current,
+    }]);
+    tapIndexRef.current += 1;
+    lastTapRef.current = respondedAt;
+    if (item.target) {
+      setScore((s: number) => s + 1);
+    } else {
+      setMistakes((m: number) => m + 1);
+    }
+
+    const markedNow = new Set([...marked, position]);
+    setMarked(markedNow);
+    if (items.every((it, i) => !it.target || markedNow.has(i))) nextPage(markedNow);
+  };
+
+  if (items.length === 0) return null;
+
+  const { name, symbols } = SYMBOL_CATEGORIES[category];
+
+  return (
+    <GameContainer profileName={profileName} timeLimit={timeLimit} timeDisplay={timeDisplay} score={score} mistakes={mistakes} title="抹消" level={null} onStop={stop} paused={paused} onPause={pause} onResume={resume} onAbandon={onAbandon} onPointerDown={onPointerDown}>
+      <div className="flex-1 flex flex-col items-center justify-between w-full">
+        {/* Target Category */}
+        <div className="mb-4 flex flex-col items-center">
+          <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-2 text-center font-medium">ターゲット：{name}</p>
+          <div className="flex gap-3 px-4 py-2 bg-white dark:bg-zinc-800 rounded-2xl border-2 border-zinc-200 dark:border-zinc-700 shadow-sm">
+            {symbols.map((Icon, i) => (
+              <Icon key={i} className="w-6 h-6 text-zinc-800 dark:text-zinc-100" strokeWidth={2.5} />
+            ))}
+          </div>
+        </div>
+
+        {/* Page */}
+        <AnimatePresence mode="popLayout">
+          <motion.div
+            key={page}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.15 }}
+            className="grid gap-1 w-full p-2 sm:p-4 bg-white dark:bg-zinc-800 rounded-2xl border-2 border-zinc-200 dark:border-zinc-700 shadow-sm"
+            style={{ gridTemplateColumns: `repeat(${CANCELLATION_COLUMNS}, minmax(0, 1fr))` }}
+          >
+            {items.map(({ Icon, dx, dy }, i) => (
+              <button
+                key={i}
+                onClick={() => handleTap(i)}
+                className="aspect-square flex items-center justify-center rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-700/50"
+              >
+                <span className="relative flex items-center justify-center" style={{ transform: `translate(${dx}%, ${dy}%)` }}>
+                  <Icon className={`w-6 h-6 sm:w-7 sm:h-7 ${marked.has(i) ? 'text-zinc-300 dark:text-zinc-600' : 'text-zinc-800 dark:text-zinc-100'}`} strokeWidth={2.5} />
+                  {marked.has(i) && <X className="absolute w-8 h-8 sm:w-9 sm:h-9 text-zinc-500 dark:text-zinc-400" strokeWidth={1.5} />}
+                </span>
+              </button>
+            ))}
+          </motion.div>
+        </AnimatePresence>
+
+        <button
+          onClick={() => nextPage(marked)}
+          className="mt-4 flex items-center gap-2 px-6 py-3 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-600 dark:text-zinc-300 rounded-2xl font-bold transition-colors active:scale-95"
+        >
+          <SkipForward className="w-4 h-4" />
+          次のページへ
+        </button>
+      </div>
+    </GameContainer>
+  );
+}
+
+const REACTION_ISI_MS: [number, number] = [800, 2500];
+const RESPONSE_WINDOW_MS = 1500;
+// Faster than this is a guess, not a reaction to the stimulus
+const ANTICIPATION_MS = 100;
+const GO_PROBABILITY = 0.75;
+const REACTION_FEEDBACK_MS = 300;
+const REACTION_POSITIONS: Record<ReactionMode, number> = { simple: 1, choice2: 2, choice4: 4, 'go-nogo': 1 };
+const REACTION_INSTRUCTIONS: Record<ReactionMode, string> = {
+  simple: '円が表示されたらすぐにタップ',
+  choice2: '円が表示された側をタップ',
+  choice4: '円が表示された位置をタップ',
+  'go-nogo': '緑の円だけタップ（赤い四角は押さない）',
+};
+
+const randomStimulus = (random: Random, mode: ReactionMode) => mode === 'go-nogo'
+  ? (random() < GO_PROBABILITY ? 1 : 0)
+  : randomInt(random, REACTION_POSITIONS[mode]);
+
+function ReactionGame({ profileName, seed, keyBindings, timeLimit, mode, score, setScore, mistakes, setMistakes, setTrials, onEnd, onAbandon }: any) {
+  const { timeDisplay, stop, paused, pause, resume, activeNow } = useGameTimer(timeLimit, onEnd);
+  const { inputRef, onPointerDown } = useInputTracker();
+  // Planned onset while waiting, actual onset once the stimulus is shown
+  const onsetRef = useRef(0);
+  const isiRef = useRef(0);
+  const isiTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const [round, setRound] = useState(0);
+  const [phase, setPhase] = useState<'wait' | 'stimulus' | 'feedback'>('wait');
+  const [stimulus, setStimulus] = useState(0);
+  const [feedback, setFeedback] = useState<'correct' | 'incorrect' | 'early' | null>(null);
+  const random = useMemo(() => createRandom(seed, round), [seed, round]);
+
+  // Every trial gets a new random interval, and so does a trial interrupted
+  // by a pause (the next draw from the trial's stream), so the stimulus onset can't be predicted
+  useEffect(() => {
+    if (paused) return;
+    const [min, max] = REACTION_ISI_MS;
+    const isi = Math.round(min + random() * (max - min));
+    isiRef.current = isi;
+    onsetRef.current = activeNow() + isi;
+    setStimulus(randomStimulus(random, mode));
+    setPhase('wait');
+    setFeedback(null);
+    isiTimerRef.current = setTimeout(() => {
+      onsetRef.current = activeNow();
+      setPhase('stimulus');
+    }, isi);
+    return () => clearTimeout(isiTimerRef.current);
+  }, [round, paused]);
+
+  // No response in time: a miss, or a correct withhold on a no-go stimulus
+  useEffect(() => {
+    if (phase !== 'stimulus' || paused) return;
+    const timer = setTimeout(() => respond(null), RESPONSE_WINDOW_MS);
+    return () => clearTimeout(timer);
+  }, [phase, paused]);
+
+  const respond = (answer: number | null) => {
+    if (paused || phase === 'feedback') return;
+    clearTimeout(isiTimerRef.current);
+    const respondedAt = activeNow();
+    const rt = respondedAt - onsetRef.current;
+    const anticipation = answer !== null && (phase === 'wait' || rt < ANTICIPATION_MS);
+    const expected = mode === 'go-nogo' ? (stimulus === 1 ? 1 : null) : stimulus;
+    const correct = !anticipation && answer === expected;
+    setTrials((t: Trial[]) => [...t, {
+      gameType: 'reaction',
+      mode,
+      index: round,
+      shownAt: Math.round(onsetRef.current),
+      respondedAt: Math.round(respondedAt),
+      rt: Math.round(rt),
+      correct,
+      isi: isiRef.current,
+      stimulus,
+      answer,
+      anticipation,
+      input: inputRef.current,
+    }]);
+    if (correct) {
+      setScore((s: number) => s + 1);
+    } else {
+      setMistakes((m: number) => m + 1);
+    }
+    setPhase('feedback');
+    setFeedback(anticipation ? 'early' : correct ? 'correct' : 'incorrect');
+    setTimeout(() => {
+      setRound((r) => r + 1);
+    }, REACTION_FEEDBACK_MS);
+  };
+
+  const positions = REACTION_POSITIONS[mode as ReactionMode];
+  const yesNo = YES_NO_KEYS[keyBindings.symbolMatch as keyof typeof YES_NO_KEYS];
+  const keyFor = (position: number) => positions === 1
+    ? 'Space'
+    : positions === 2
+      ? (position === 0 ? yesNo.yes : yesNo.no)
+      : codingKey(keyBindings.coding, position, positions);
+  const hints = showKeyHints();
+  useKeyHandler(code => {
+    const position = Array.from({ length: positions }, (_, i) => i).find(i => keyFor(i) === code);
+    if (position === undefined) return false;
+    inputRef.current = 'keyboard';
+    respond(mode === 'go-nogo' ? 1 : position);
+    return true;
+  });
+
+  const shown = phase === 'stimulus';
+  const stimulusIcon = mode === 'go-nogo' && stimulus === 0
+    ? <Square className="w-24 h-24 text-rose-500 fill-rose-500" />
+    : <Circle className={`w-24 h-24 ${mode === 'go-nogo' ? 'text-emerald-500 fill-emerald-500' : 'text-indigo-600 fill-indigo-600'}`} />;
+
+  return (
+    <GameContainer profileName={profileName} timeLimit={timeLimit} timeDisplay={timeDisplay} score={score} mistakes={mistakes} title={`反応（${REACTION_MODE_LABELS[mode as ReactionMode]}）`} level={null} onStop={stop} paused={paused} onPause={pause} onResume={resume} onAbandon={onAbandon} onPointerDown={onPointerDown}>
+      <div className="flex-1 flex flex-col items-center w-full">
+        <p className="text-sm text-zinc-500 dark:text-zinc-400 mb-4 text-center font-medium">{REACTION_INSTRUCTIONS[mode as ReactionMode]}</p>
+
+        {/* Response areas respond on pointer down; click fires too late for RT */}
+        <div className="flex-1 grid gap-3 w-full" style={{ gridTemplateColumns: `repeat(${positions}, minmax(0, 1fr))` }}>
+          {Array.from({ length: positions }, (_, i) => {
+            const key = hints ? keyFor(i) : null;
+            return (
+              <button
+                key={i}
+                onPointerDown={() => respond(mode === 'go-nogo' ? 1 : i)}
+                className="relative flex items-center justify-center bg-zinc-50 dark:bg-zinc-800/50 border-2 border-zinc-200 dark:border-zinc-700 rounded-2xl touch-none"
+              >
+                {key && <kbd className="absolute bottom-2 text-xs font-mono font-bold text-zinc-400 dark:text-zinc-500">{keyLabel(key)}</kbd>}
+                {shown && (positions === 1 || stimulus === i)
+                  ? stimulusIcon
+                  : positions === 1 && <span className="text-4xl font-mono text-zinc-300 dark:text-zinc-600">+</span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Feedback Overlay */}
+      <AnimatePresence>
+        {feedback && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 pointer-events-none flex items-center justify-center"
+          >
+            <div className={`absolute inset-0 opacity-20 ${feedback === 'correct' ? 'bg-green-500' : feedback === 'early' ? 'bg-amber-500' : 'bg-red-500'}`} />
+            {feedback === 'early' && <p className="relative text-2xl font-bold text-amber-600 dark:text-amber-400">早すぎます</p>}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </GameContainer>
+  );
+}
+
+function GameContainer({ children, profileName, timeLimit, timeDisplay, score, mistakes, title, level, showScore = true, onStop, paused, onPause, onResume, onAbandon, onPointerDown }: any) {
+  useKeyHandler(code => {
+    if (code === 'KeyP') {
+      paused ? onResume() : onPause();
+      return true;
+    }
+    if (code !== 'Escape' || timeLimit !== 'endless') return false;
+    onStop();
+    return true;
+  });
+
   return (
     <motion.div
+      onPointerDownCapture={onPointerDown}
       initial={{ opacity: 0, scale: 0.95 }}
       animate={{ opacity: 1, scale: 1 }}
       exit={{ opacity: 0, scale: 0.95 }}
@@ -623,11 +2295,17 @@ function GameContainer({ children, timeLimit, timeDisplay, score, mistakes, titl
       <div className="flex items-center justify-between p-4 sm:p-6 border-b border-zinc-100 dark:border-zinc-800 bg-zinc-50/50 dark:bg-zinc-900/50">
         <div className="flex items-center gap-4">
           <div className="text-sm font-medium text-zinc-500 dark:text-zinc-400">{title}</div>
+          {level != null && (
+            <div className="text-xs font-bold text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/30 px-2 py-1 rounded-full">Lv.{level}</div>
+          )}
           <div className="flex items-center gap-2 bg-white dark:bg-zinc-800 px-3 py-1 rounded-full border border-zinc-200 dark:border-zinc-700 shadow-sm">
             <span className="text-zinc-400 dark:text-zinc-500 text-xs font-bold uppercase tracking-wider">Time</span>
             <span className={`font-mono font-bold text-lg ${timeLimit !== 'endless' && timeDisplay <= 10 ? 'text-red-500' : 'text-zinc-800 dark:text-zinc-100'}`}>
               {timeLimit === 'endless' ? timeDisplay : timeDisplay}s
             </span>
+            <button onClick={onPause} className="ml-1 p-1 text-zinc-400 hover:text-indigo-500 transition-colors" title="一時停止 (P)">
+              <Pause className="w-4 h-4" />
+            </button>
             {timeLimit === 'endless' && (
               <button onClick={onStop} className="ml-2 bg-red-50 dark:bg-red-950/30 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/50 px-3 py-0.5 rounded-full text-xs font-bold transition-colors">
                 終了
@@ -637,14 +2315,22 @@ function GameContainer({ children, timeLimit, timeDisplay, score, mistakes, titl
         </div>
 
         <div className="flex items-center gap-4">
-          <div className="flex items-center gap-1.5 text-green-600">
-            <Check className="w-4 h-4" />
-            <span className="font-mono font-bold">{score}</span>
-          </div>
-          <div className="flex items-center gap-1.5 text-red-500">
-            <X className="w-4 h-4" />
-            <span className="font-mono font-bold">{mistakes}</span>
+          <div className="flex items-center gap-1 text-xs font-bold text-zinc-400 dark:text-zinc-500 max-w-[6rem]">
+            <User className="w-3.5 h-3.5 shrink-0" />
+            <span className="truncate">{profileName}</span>
           </div>
+          {showScore && (
+            <>
+              <div className="flex items-center gap-1.5 text-green-600">
+                <Check className="w-4 h-4" />
+                <span className="font-mono font-bold">{score}</span>
+              </div>
+              <div className="flex items-center gap-1.5 text-red-500">
+                <X className="w-4 h-4" />
+                <span className="font-mono font-bold">{mistakes}</span>
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -652,51 +2338,433 @@ function GameContainer({ children, timeLimit, timeDisplay, score, mistakes, titl
       <div className="flex-1 p-4 sm:p-6 flex flex-col items-center relative z-10">
         {children}
       </div>
+
+      {/* Pause Overlay: hides the stimuli so the pause can't be used to search */}
+      {paused && (
+        <div className="absolute inset-0 z-20 bg-white/95 dark:bg-zinc-900/95 flex flex-col items-center justify-center gap-3 p-8">
+          <p className="text-2xl font-bold text-zinc-800 dark:text-zinc-100 mb-4">一時停止中</p>
+          <button
+            onClick={onResume}
+            className="w-full max-w-xs flex items-center justify-center gap-2 py-4 bg-zinc-900 dark:bg-white dark:text-zinc-900 hover:bg-zinc-800 dark:hover:bg-zinc-100 text-white rounded-2xl font-bold transition-colors active:scale-95"
+          >
+            <Play className="w-5 h-5" />
+            再開
+          </button>
+          <button
+            onClick={() => { if (confirm('このセッションを記録せずに中断しますか？')) onAbandon(); }}
+            className="w-full max-w-xs flex items-center justify-center gap-2 py-4 bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-700 text-red-500 dark:text-red-400 rounded-2xl font-bold transition-colors active:scale-95"
+          >
+            <X className="w-5 h-5" />
+            中断して記録しない
+          </button>
+        </div>
+      )}
     </motion.div>
   );
 }
 
-function ResultScreen({ score, mistakes, psi, elapsed, gameType, onRetry, onHome }: any) {
-  const total = score + mistakes;
-  const accuracy = total > 0 ? Math.round((score / total) * 100) : 0;
+function ReactionTimePanel({ trials, darkMode }: { trials: Trial[], darkMode: boolean }) {
+  const rt = computeRtStats(trials);
+  if (!rt) return null;
+
+  const { tooltipStyle, tickStyle, gridColor } = chartStyles(darkMode);
+  const segmentLabels = ['序盤', '中盤', '終盤'];
+  const cards = [
+    { label: '中央値', value: rt.median, unit: 'ms' },
+    { label: '平均', value: rt.mean, unit: 'ms' },
+    { label: 'ばらつき (SD)', value: rt.sd, unit: 'ms' },
+    { label: 'エラー後の減速', value: rt.postErrorSlowing === null ? '-' : `${rt.postErrorSlowing > 0 ? '+' : ''}${rt.postErrorSlowing}`, unit: rt.postErrorSlowing === null ? '' : 'ms' },
+    { label: '序盤→終盤', value: rt.fatigue === null ? '-' : `${rt.fatigue.change > 0 ? '+' : ''}${rt.fatigue.change}`, unit: rt.fatigue === null ? '' : '%' },
+    { label: '正答数', value: rt.count, unit: '' },
+  ];
+
+  return (
+    <div className="mb-8 text-left">
+      <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3 flex items-center gap-1.5"><Timer className="w-4 h-4" />反応時間（正答のみ）</p>
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        {cards.map(({ label, value, unit }) => (
+          <div key={label} className="bg-zinc-50 dark:bg-zinc-800/50 p-3 rounded-2xl border border-zinc-100 dark:border-zinc-800 text-center">
+            <div className="text-lg font-mono font-bold text-zinc-800 dark:text-zinc-100">{value}<span className="text-xs font-bold">{unit}</span></div>
+            <div className="text-xs text-zinc-500 dark:text-zinc-400">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* RT Histogram */}
+      <p className="text-xs font-bold text-zinc-500 dark:text-zinc-400 mb-2">分布 (ms)</p>
+      <div className="h-32 mb-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={rt.histogram} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+            <XAxis dataKey="bin" tick={tickStyle} axisLine={false} tickLine={false} />
+            <YAxis allowDecimals={false} tick={tickStyle} axisLine={false} tickLine={false} />
+            <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: darkMode ? '#f4f4f5' : '#18181b' }} cursor={false} formatter={(v: any) => [`${v}`, '回数']} />
+            <Bar dataKey="count" fill="#4f46e5" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Fatigue Curve */}
+      <p className="text-xs font-bold text-zinc-500 dark:text-zinc-400 mb-2">疲労曲線（区間ごとの中央値 ms）</p>
+      <div className="h-32">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={rt.curve.map(c => ({ ...c, name: segmentLabels[c.segment - 1] }))} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+            <XAxis dataKey="name" tick={tickStyle} axisLine={false} tickLine={false} />
+            <YAxis tick={tickStyle} axisLine={false} tickLine={false} domain={['auto', 'auto']} />
+            <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: darkMode ? '#f4f4f5' : '#18181b' }} formatter={(v: any) => [`${v}ms`, '中央値']} />
+            <Line type="monotone" dataKey="median" stroke="#f59e0b" strokeWidth={2.5} dot={{ r: 3, fill: '#f59e0b', strokeWidth: 0 }} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+function DifficultyPanel({ trials, darkMode }: { trials: Trial[], darkMode: boolean }) {
+  const trajectory = trials.filter(t => t.level != null).map((t, i) => ({ trial: i + 1, level: t.level }));
+  if (trajectory.length === 0) return null;
+
+  const { tooltipStyle, tickStyle, gridColor } = chartStyles(darkMode);
+  const finalLevel = trajectory[trajectory.length - 1].level;
+  const peakLevel = Math.max(...trajectory.map(t => t.level as number));
+
+  return (
+    <div className="mb-8 text-left">
+      <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3">難易度の推移</p>
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        {[['最終レベル', finalLevel], ['最高レベル', peakLevel]].map(([label, value]) => (
+          <div key={label} className="bg-zinc-50 dark:bg-zinc-800/50 p-3 rounded-2xl border border-zinc-100 dark:border-zinc-800 text-center">
+            <div className="text-lg font-mono font-bold text-amber-600 dark:text-amber-400">Lv.{value}</div>
+            <div className="text-xs text-zinc-500 dark:text-zinc-400">{label}</div>
+          </div>
+        ))}
+      </div>
+      <div className="h-32">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={trajectory} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+            <XAxis dataKey="trial" tick={tickStyle} axisLine={false} tickLine={false} interval="preserveStartEnd" />
+            <YAxis allowDecimals={false} tick={tickStyle} axisLine={false} tickLine={false} domain={['dataMin - 1', 'dataMax + 1']} />
+            <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: darkMode ? '#f4f4f5' : '#18181b' }} labelFormatter={(l: any) => `試行 ${l}`} formatter={(v: any) => [`Lv.${v}`, 'レベル']} />
+            <Line type="stepAfter" dataKey="level" stroke="#f59e0b" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+function LearningCurvePanel({ trials, darkMode }: { trials: Trial[], darkMode: boolean }) {
+  const curve = computeLearningCurve(trials);
+  if (!curve) return null;
+
+  const { tooltipStyle, tickStyle, gridColor } = chartStyles(darkMode);
+  const cards = [
+    { label: '最初のブロック', value: curve.blocks[0].median, unit: 'ms' },
+    { label: '最後のブロック', value: curve.blocks[curve.blocks.length - 1].median, unit: 'ms' },
+    { label: '変化', value: `${curve.improvement > 0 ? '+' : ''}${curve.improvement}`, unit: '%' },
+    { label: '学習率 (b)', value: curve.learningRate, unit: '' },
+  ];
+
+  return (
+    <div className="mb-8 text-left">
+      <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3 flex items-center gap-1.5"><TrendingUp className="w-4 h-4" />学習曲線（10試行ごとの中央値）</p>
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        {cards.map(({ label, value, unit }) => (
+          <div key={label} className="bg-zinc-50 dark:bg-zinc-800/50 p-3 rounded-2xl border border-zinc-100 dark:border-zinc-800 text-center">
+            <div className="text-lg font-mono font-bold text-zinc-800 dark:text-zinc-100">{value}<span className="text-xs font-bold">{unit}</span></div>
+            <div className="text-xs text-zinc-500 dark:text-zinc-400">{label}</div>
+          </div>
+        ))}
+      </div>
+      <div className="h-32">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={curve.blocks} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+            <XAxis dataKey="block" tick={tickStyle} axisLine={false} tickLine={false} interval="preserveStartEnd" />
+            <YAxis tick={tickStyle} axisLine={false} tickLine={false} domain={['auto', 'auto']} />
+            <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: darkMode ? '#f4f4f5' : '#18181b' }} labelFormatter={(l: any) => `ブロック ${l}`} formatter={(v: any) => [`${v}ms`, '中央値']} />
+            <Line type="monotone" dataKey="median" stroke="#10b981" strokeWidth={2.5} dot={{ r: 3, fill: '#10b981', strokeWidth: 0 }} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+function SimilarityPanel({ trials }: { trials: Trial[] }) {
+  const bands = accuracyBySimilarity(trials);
+  if (bands.length === 0) return null;
+
+  return (
+    <div className="mb-8 text-left">
+      <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3">妨害刺激の類似度別の正答率</p>
+      <div className="grid grid-cols-3 gap-2">
+        {bands.map(({ label, trials: count, accuracy, falseAlarms }) => (
+          <div key={label} className="bg-zinc-50 dark:bg-zinc-800/50 p-3 rounded-2xl border border-zinc-100 dark:border-zinc-800 text-center">
+            <div className="text-lg font-mono font-bold text-zinc-800 dark:text-zinc-100">{accuracy}<span className="text-xs font-bold">%</span></div>
+            <div className="text-xs text-zinc-500 dark:text-zinc-400">類似度{label}（{count}試行）</div>
+            {falseAlarms > 0 && <div className="text-xs text-red-500 dark:text-red-400 mt-1">見誤り {falseAlarms}</div>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ReactionErrorsPanel({ trials, mode }: { trials: Trial[], mode: ReactionMode }) {
+  const { anticipations, misses, commissions } = summarizeReactionErrors(trials);
+  const cards = [
+    { label: '早すぎ', value: anticipations },
+    { label: '見逃し', value: misses },
+    ...(mode === 'go-nogo' ? [{ label: '誤反応（No-Go）', value: commissions }] : []),
+  ];
+
+  return (
+    <div className="mb-8 text-left">
+      <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3">エラーの内訳</p>
+      <div className="grid grid-cols-3 gap-2">
+        {cards.map(({ label, value }) => (
+          <div key={label} className="bg-zinc-50 dark:bg-zinc-800/50 p-3 rounded-2xl border border-zinc-100 dark:border-zinc-800 text-center">
+            <div className="text-lg font-mono font-bold text-zinc-800 dark:text-zinc-100">{value}</div>
+            <div className="text-xs text-zinc-500 dark:text-zinc-400">{label}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function GoalList({ goals }: { goals: GoalStatus[] }) {
+  return (
+    <div className="space-y-2">
+      {goals.map(g => (
+        <div key={g.key}>
+          <div className="flex justify-between text-xs mb-1">
+            <span className="text-zinc-500 dark:text-zinc-400">{g.label}</span>
+            <span className={`font-mono font-bold ${g.met ? 'text-emerald-600 dark:text-emerald-400' : 'text-zinc-700 dark:text-zinc-200'}`}>
+              {g.current ?? '-'}{g.unit} / {g.target}{g.unit}
+            </span>
+          </div>
+          <div className="h-1.5 bg-zinc-100 dark:bg-zinc-800 rounded-full overflow-hidden">
+            <div className={`h-full rounded-full ${g.met ? 'bg-emerald-500' : 'bg-indigo-500'}`} style={{ width: `${Math.min(100, (g.current ?? 0) / g.target * 100)}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AdvicePanel({ advisor, stats, goals, latest, customSymbolSets }: {
+  advisor: AdviceProvider | null,
+  stats: StatEntry[],
+  goals: Goals,
+  latest: StatEntry | null,
+  customSymbolSets: CustomSymbolSet[],
+}) {
+  const [advice, setAdvice] = useState<Advice | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  if (!advisor) return null;
+
+  const ask = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const summary = summarizeForAdvice(stats, goals, new Date(), latest, id => symbolSetName(id, customSymbolSets));
+      setAdvice(await advisor.advise(summary));
+    } catch (e) {
+      setError(`アドバイスを取得できませんでした: ${(e as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 text-left bg-indigo-50 dark:bg-indigo-950/30 rounded-2xl p-4 border border-indigo-100 dark:border-indigo-900">
+      <p className="text-sm font-bold text-indigo-700 dark:text-indigo-300 flex items-center gap-1.5 mb-2"><Sparkles className="w-4 h-4" />AIコーチ</p>
+      {advice && (
+        <div className="space-y-3 mb-3 text-sm text-zinc-700 dark:text-zinc-200">
+          <p className="leading-relaxed">{advice.feedback}</p>
+          {advice.recommendations.length > 0 && (
+            <div>
+              <p className="text-xs font-bold text-zinc-500 dark:text-zinc-400 mb-1">次のセッションへの提案</p>
+              <ul className="list-disc pl-5 space-y-1">
+                {advice.recommendations.map((r, i) => <li key={i}>{r}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-500 dark:text-red-400 mb-2">{error}</p>}
+      {!advice && (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-3">
+          記録の傾向（課題ごとのPSIの推移、正答率と速さ、条件）の要約を{advisor.name}に送り、次のトレーニングへのアドバイスを受け取ります。名前などの個人情報は送信しません。
+        </p>
+      )}
+      <button
+        onClick={ask}
+        disabled={loading}
+        className="w-full py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-xl transition-colors disabled:opacity-50"
+      >
+        {loading ? '分析中…' : advice ? 'もう一度アドバイスをもらう' : 'アドバイスをもらう'}
+      </button>
+    </div>
+  );
+}
+
+function ValidityWarning({ validity }: { validity: Validity }) {
+  return (
+    <div className="mb-8 text-left p-4 rounded-2xl bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900">
+      <p className="flex items-center gap-1.5 text-sm font-bold text-amber-700 dark:text-amber-300 mb-2">
+        <AlertTriangle className="w-4 h-4 shrink-0" />
+        推測で回答した可能性があります
+      </p>
+      <ul className="list-disc pl-5 space-y-1 text-xs text-amber-700/90 dark:text-amber-300/90">
+        {validity.flags.map(f => <li key={f.kind}>{f.detail}</li>)}
+      </ul>
+      <p className="text-xs text-amber-600/80 dark:text-amber-400/80 mt-2">
+        このような記録は、統計の平均・自己ベスト・目標・実績の計算から除外されます（統計画面で平均に含めることもできます）。速さより正確さを優先し、一問ずつ確かめて回答しましょう。
+      </p>
+    </div>
+  );
+}
+
+function RewardsPanel({ rewards, psi }: { rewards: SessionRewards, psi: number }) {
+  const record = rewards.previousBest !== null && psi > rewards.previousBest;
+  if (!record && rewards.achievements.length === 0 && rewards.goals.length === 0 && rewards.streak < 2) return null;
+
+  return (
+    <div className="mb-8 text-left space-y-3">
+      {record && (
+        <div className="flex items-center gap-3 p-3 rounded-2xl bg-emerald-50 dark:bg-emerald-950/30 border border-emerald-200 dark:border-emerald-900">
+          <TrendingUp className="w-5 h-5 text-emerald-600 dark:text-emerald-400 shrink-0" />
+          <div className="text-sm">
+            <div className="font-bold text-emerald-700 dark:text-emerald-300">自己ベスト更新！</div>
+            <div className="text-xs text-emerald-600/80 dark:text-emerald-400/80">同じ条件でのこれまでの最高 {rewards.previousBest}</div>
+          </div>
+        </div>
+      )}
+      {rewards.achievements.map(a => (
+        <div key={a.id} className="flex items-center gap-3 p-3 rounded-2xl bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900">
+          <Trophy className="w-5 h-5 text-amber-500 shrink-0" />
+          <div className="text-sm">
+            <div className="font-bold text-amber-700 dark:text-amber-300">実績解除：{a.name}</div>
+            <div className="text-xs text-amber-600/80 dark:text-amber-400/80">{a.description}</div>
+          </div>
+        </div>
+      ))}
+      {rewards.streak >= 2 && (
+        <p className="flex items-center gap-1 text-sm font-bold text-amber-600 dark:text-amber-400">
+          <Flame className="w-4 h-4" />
+          {rewards.streak}日連続でトレーニング中
+        </p>
+      )}
+      {rewards.goals.length > 0 && <GoalList goals={rewards.goals} />}
+    </div>
+  );
+}
+
+function ResultScreen({ score, mistakes, psi, ci, elapsed, pauses, gameType, trials, adaptive, cancellation, learning, reactionMode, sessionCode, benchmark, rewards, advisor, stats, goals, customSymbolSets, darkMode, onRetry, onReplay, onNextProgramSession, onHome }: any) {
+  const total = score + mistakes;
+  // Warm-ups aren't normed, so the headline is the raw reaction time
+  const warmUp = isWarmUp(gameType);
+  const medianRt = computeRtStats(trials)?.median;
+  const accuracy = total > 0 ? Math.round((score / total) * 100) : 0;
+  const validity = sessionValidity({ gameType, score, mistakes, trials });
 
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       exit={{ opacity: 0, y: -20 }}
-      className="max-w-md w-full bg-white dark:bg-zinc-900 rounded-3xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-8 text-center"
+      className="max-w-md w-full bg-white dark:bg-zinc-900 rounded-3xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-8 text-center overflow-y-auto max-h-[92vh]"
     >
       <div className="mb-8">
         <h2 className="text-sm font-bold text-zinc-400 dark:text-zinc-500 uppercase tracking-widest mb-2">
-          Processing Speed Index (PSI)
+          {warmUp ? 'Reaction Time' : 'Processing Speed Index (PSI)'}
         </h2>
         {elapsed < 10 ? (
           <div className="text-2xl font-bold text-zinc-500 mb-2 py-4">測定不能<br /><span className="text-sm font-normal">（プレイ時間が短すぎます）</span></div>
+        ) : warmUp ? (
+          <>
+            <div className="text-6xl font-black text-sky-600 dark:text-sky-400 mb-2">{medianRt ?? '-'}<span className="text-2xl font-bold">ms</span></div>
+            <p className="text-zinc-500 dark:text-zinc-400 text-sm">反応時間の中央値（{REACTION_MODE_LABELS[reactionMode as ReactionMode]}）</p>
+            {pauses.count > 0 && (
+              <p className="text-amber-600 dark:text-amber-400 text-xs mt-2">一時停止 {pauses.count}回（計{pauses.pausedSeconds}秒）を除いて計測しました</p>
+            )}
+          </>
         ) : (
           <>
             <div className="text-6xl font-black text-indigo-600 dark:text-indigo-400 mb-2">{psi}</div>
             <p className="text-zinc-500 dark:text-zinc-400 text-sm">推定PSI (平均100)</p>
+            <p className="text-zinc-400 dark:text-zinc-500 text-xs mt-1">95%信頼区間 {ci[0]}–{ci[1]}</p>
+            {pauses.count > 0 && (
+              <p className="text-amber-600 dark:text-amber-400 text-xs mt-2">一時停止 {pauses.count}回（計{pauses.pausedSeconds}秒）を除いて計測しました</p>
+            )}
           </>
         )}
       </div>
 
+      {!validity.valid && <ValidityWarning validity={validity} />}
+
       <div className="grid grid-cols-2 gap-4 mb-8">
         <div className="bg-zinc-50 dark:bg-zinc-800/50 p-4 rounded-2xl border border-zinc-100 dark:border-zinc-800">
           <div className="text-2xl font-mono font-bold text-green-600 dark:text-green-400 mb-1">{score}</div>
-          <div className="text-xs text-zinc-500 dark:text-zinc-400 font-medium">正解数</div>
+          <div className="text-xs text-zinc-500 dark:text-zinc-400 font-medium">{cancellation ? 'ヒット' : '正解数'}</div>
         </div>
         <div className="bg-zinc-50 dark:bg-zinc-800/50 p-4 rounded-2xl border border-zinc-100 dark:border-zinc-800">
           <div className="text-2xl font-mono font-bold text-red-500 dark:text-red-400 mb-1">{mistakes}</div>
-          <div className="text-xs text-zinc-500 dark:text-zinc-400 font-medium">ミス</div>
+          <div className="text-xs text-zinc-500 dark:text-zinc-400 font-medium">{cancellation ? '誤選択' : 'ミス'}</div>
         </div>
+        {cancellation && (
+          <div className="col-span-2 bg-zinc-50 dark:bg-zinc-800/50 p-4 rounded-2xl border border-zinc-100 dark:border-zinc-800 flex justify-between items-center">
+            <div className="text-sm text-zinc-500 dark:text-zinc-400 font-medium">見落とし（{cancellation.pages}ページ）</div>
+            <div className="text-xl font-mono font-bold text-zinc-800 dark:text-zinc-100">{cancellation.omissions}</div>
+          </div>
+        )}
         <div className="col-span-2 bg-zinc-50 dark:bg-zinc-800/50 p-4 rounded-2xl border border-zinc-100 dark:border-zinc-800 flex justify-between items-center">
           <div className="text-sm text-zinc-500 dark:text-zinc-400 font-medium">正答率</div>
           <div className="text-xl font-mono font-bold text-zinc-800 dark:text-zinc-100">{accuracy}%</div>
         </div>
+        {validity.chanceCorrected !== null && (
+          <div className="col-span-2 bg-zinc-50 dark:bg-zinc-800/50 p-4 rounded-2xl border border-zinc-100 dark:border-zinc-800 flex justify-between items-center">
+            <div className="text-left">
+              <div className="text-sm text-zinc-500 dark:text-zinc-400 font-medium">偶然正答を補正したスコア</div>
+              <div className="text-[10px] text-zinc-400 dark:text-zinc-500">当てずっぽうでの正答率 {Math.round(validity.chance! * 100)}%</div>
+            </div>
+            <div className="text-xl font-mono font-bold text-zinc-800 dark:text-zinc-100">{validity.chanceCorrected}</div>
+          </div>
+        )}
+        <div className="col-span-2 bg-zinc-50 dark:bg-zinc-800/50 p-4 rounded-2xl border border-zinc-100 dark:border-zinc-800 flex justify-between items-center">
+          <div className="text-sm text-zinc-500 dark:text-zinc-400 font-medium">計測時間</div>
+          <div className="text-xl font-mono font-bold text-zinc-800 dark:text-zinc-100">{elapsed.toFixed(2)}s</div>
+        </div>
+        <div className="col-span-2 bg-zinc-50 dark:bg-zinc-800/50 p-4 rounded-2xl border border-zinc-100 dark:border-zinc-800 flex justify-between items-center">
+          <div className="text-sm text-zinc-500 dark:text-zinc-400 font-medium">{benchmark ? `ベンチマーク${benchmark}` : 'セッションコード'}</div>
+          <div className="text-xl font-mono font-bold text-zinc-800 dark:text-zinc-100 select-text">{sessionCode}</div>
+        </div>
       </div>
 
+      {rewards && <RewardsPanel rewards={rewards} psi={psi} />}
+      {adaptive && <DifficultyPanel trials={trials} darkMode={darkMode} />}
+      {warmUp && <ReactionErrorsPanel trials={trials} mode={reactionMode} />}
+      {learning && <LearningCurvePanel trials={trials} darkMode={darkMode} />}
+      {gameType === 'symbol-match' && <SimilarityPanel trials={trials} />}
+      <ReactionTimePanel trials={trials} darkMode={darkMode} />
+      {rewards && <AdvicePanel advisor={advisor} stats={stats} goals={goals} latest={rewards.entry} customSymbolSets={customSymbolSets} />}
+
       <div className="space-y-3">
+        {onNextProgramSession && (
+          <button
+            onClick={onNextProgramSession}
+            className="w-full flex items-center justify-center gap-2 py-4 bg-indigo-600 hover:bg-indigo-700 text-white rounded-2xl font-bold transition-colors active:scale-95"
+          >
+            <CalendarDays className="w-5 h-5" />
+            次のメニューへ
+          </button>
+        )}
         <button
           onClick={onRetry}
           className="w-full flex items-center justify-center gap-2 py-4 bg-zinc-900 dark:bg-white dark:text-zinc-900 hover:bg-zinc-800 dark:hover:bg-zinc-100 text-white rounded-2xl font-bold transition-colors active:scale-95"
@@ -704,6 +2772,13 @@ function ResultScreen({ score, mistakes, psi, elapsed, gameType, onRetry, onHome
           <RotateCcw className="w-5 h-5" />
           もう一度プレイ
         </button>
+        <button
+          onClick={onReplay}
+          className="w-full flex items-center justify-center gap-2 py-4 bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-700 text-zinc-700 dark:text-zinc-200 rounded-2xl font-bold transition-colors active:scale-95"
+        >
+          <RotateCcw className="w-5 h-5" />
+          同じ問題でもう一度
+        </button>
         <button
           onClick={onHome}
           className="w-full flex items-center justify-center gap-2 py-4 bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-700 text-zinc-700 dark:text-zinc-200 rounded-2xl font-bold transition-colors active:scale-95"
@@ -716,69 +2791,612 @@ function ResultScreen({ score, mistakes, psi, elapsed, gameType, onRetry, onHome
   );
 }
 
-function StatsScreen({ stats, onHome, darkMode, onClearStats }: { stats: StatEntry[], onHome: () => void, darkMode: boolean, onClearStats: () => void, key?: React.Key }) {
-  const [tab, setTab] = useState<'all' | 'symbol-match' | 'coding'>('all');
+const ASSESSMENT_TASK_INSTRUCTIONS: Record<'symbol-match' | 'coding', string> = {
+  'symbol-match': '上のターゲットのどれかが検索リストにあれば「あり」、なければ「なし」を選びます。',
+  coding: '対応表を見ながら、数字に対応する記号を左から順に選びます。',
+};
 
-  const filtered = tab === 'all' ? stats : stats.filter(s => s.gameType === tab);
+function AssessmentScreen({ step, onStart, onCancel }: { step: number, onStart: () => void, onCancel: () => void, key?: React.Key }) {
+  const current = ASSESSMENT_STEPS[step];
 
-  const chartData = filtered.map((s) => ({
-    name: `${new Date(s.date).getMonth() + 1}/${new Date(s.date).getDate()} ${String(new Date(s.date).getHours()).padStart(2, '0')}:${String(new Date(s.date).getMinutes()).padStart(2, '0')}`,
-    psi: s.psi,
-    accuracy: s.score + s.mistakes > 0 ? Math.round((s.score / (s.score + s.mistakes)) * 100) : 0,
-    ratePerMin: s.elapsed > 0 ? Math.round((s.score / s.elapsed) * 60 * 10) / 10 : 0,
-    game: s.gameType === 'symbol-match' ? '記号探し' : '符号',
-  }));
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="max-w-md w-full bg-white dark:bg-zinc-900 rounded-3xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-8 text-center"
+    >
+      <p className="text-xs font-bold text-zinc-400 dark:text-zinc-500 uppercase tracking-widest mb-2">PSI評価 {step + 1} / {ASSESSMENT_STEPS.length}</p>
+      <h2 className="text-2xl font-bold dark:text-white mb-1">{GAME_LABELS[current.gameType]}</h2>
+      <p className={`text-sm font-bold mb-6 ${current.practice ? 'text-emerald-600 dark:text-emerald-400' : 'text-indigo-600 dark:text-indigo-400'}`}>
+        {current.practice ? `練習（${current.trialLimit}問）` : `本番（${current.timeLimit}秒）`}
+      </p>
+      <p className="text-sm text-zinc-600 dark:text-zinc-300 mb-4 text-left">{ASSESSMENT_TASK_INSTRUCTIONS[current.gameType]}</p>
+      <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-8 text-left">
+        {current.practice
+          ? '練習では正誤が表示されます。記録には残りません。'
+          : 'できるだけ速く正確に答えてください。本番中は正誤やスコアは表示されません。'}
+      </p>
+      <div className="space-y-3">
+        <button
+          onClick={onStart}
+          className="w-full flex items-center justify-center gap-2 py-4 bg-zinc-900 dark:bg-white dark:text-zinc-900 hover:bg-zinc-800 dark:hover:bg-zinc-100 text-white rounded-2xl font-bold transition-colors active:scale-95"
+        >
+          <Play className="w-5 h-5" />
+          開始
+        </button>
+        <button
+          onClick={() => { if (confirm('評価を中止しますか？ここまでの結果は保存されません。')) onCancel(); }}
+          className="w-full flex items-center justify-center gap-2 py-4 bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-700 text-zinc-700 dark:text-zinc-200 rounded-2xl font-bold transition-colors active:scale-95"
+        >
+          <X className="w-5 h-5" />
+          中止
+        </button>
+      </div>
+    </motion.div>
+  );
+}
 
-  const avgPsi = filtered.length > 0 ? Math.round(filtered.reduce((a, s) => a + s.psi, 0) / filtered.length) : 0;
-  const bestPsi = filtered.length > 0 ? Math.max(...filtered.map(s => s.psi)) : 0;
-  const avgAcc = filtered.length > 0 ? Math.round(filtered.reduce((a, s) => {
-    const total = s.score + s.mistakes;
-    return a + (total > 0 ? (s.score / total) * 100 : 0);
-  }, 0) / filtered.length) : 0;
+function AssessmentResultScreen({ assessment, onStats, onHome }: { assessment: Assessment, onStats: () => void, onHome: () => void, key?: React.Key }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="max-w-md w-full bg-white dark:bg-zinc-900 rounded-3xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-8 text-center"
+    >
+      <div className="mb-8">
+        <h2 className="text-sm font-bold text-zinc-400 dark:text-zinc-500 uppercase tracking-widest mb-2">PSI Assessment</h2>
+        <div className="text-6xl font-black text-indigo-600 dark:text-indigo-400 mb-2">{assessment.psi}</div>
+        <p className="text-zinc-500 dark:text-zinc-400 text-sm">合成PSI (平均100)</p>
+        <p className="text-zinc-400 dark:text-zinc-500 text-xs mt-1">95%信頼区間 {assessment.psiCi[0]}–{assessment.psiCi[1]}</p>
+      </div>
 
-  const tooltipStyle = {
-    borderRadius: '12px', border: 'none',
-    boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.15)',
-    backgroundColor: darkMode ? '#18181b' : '#fff',
-    color: darkMode ? '#f4f4f5' : '#18181b',
-    fontSize: '12px',
+      <div className="grid grid-cols-2 gap-4 mb-8">
+        {assessment.subtests.map(s => (
+          <div key={s.id} className="bg-zinc-50 dark:bg-zinc-800/50 p-4 rounded-2xl border border-zinc-100 dark:border-zinc-800">
+            <div className="text-2xl font-mono font-bold text-zinc-800 dark:text-zinc-100 mb-1">{s.psi}</div>
+            <div className="text-xs text-zinc-500 dark:text-zinc-400 font-medium">{s.gameType ? GAME_LABELS[s.gameType] : ''}（正解{s.score} / ミス{s.mistakes}）</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <button
+          onClick={onStats}
+          className="w-full flex items-center justify-center gap-2 py-4 bg-zinc-900 dark:bg-white dark:text-zinc-900 hover:bg-zinc-800 dark:hover:bg-zinc-100 text-white rounded-2xl font-bold transition-colors active:scale-95"
+        >
+          <BarChart2 className="w-5 h-5" />
+          評価の推移を見る
+        </button>
+        <button
+          onClick={onHome}
+          className="w-full flex items-center justify-center gap-2 py-4 bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-700 text-zinc-700 dark:text-zinc-200 rounded-2xl font-bold transition-colors active:scale-95"
+        >
+          <HomeIcon className="w-5 h-5" />
+          ホームに戻る
+        </button>
+      </div>
+    </motion.div>
+  );
+}
+
+function NormSettings({ stats, norms, ageBand, onChangeNorms, onRescore }: {
+  stats: StatEntry[],
+  norms: NormTable,
+  ageBand: string | null,
+  onChangeNorms: (table: NormTable | null, band: string | null) => void,
+  onRescore: () => void,
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const bands = ageBands(norms);
+  const outdated = stats.filter(s => !isWarmUp(s.gameType) && (s.normVersion ?? LEGACY_NORM_VERSION) !== norms.version).length;
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChangeNorms(parseNormTable(await file.text()), null);
+    } catch (err) {
+      alert(`ノルム表を読み込めませんでした: ${(err as Error).message}`);
+    }
   };
-  const tickStyle = { fontSize: 11, fill: darkMode ? '#a1a1aa' : '#71717a' };
-  const gridColor = darkMode ? '#3f3f46' : '#e4e4e7';
 
   return (
-    <motion.div
-      initial={{ opacity: 0, scale: 0.95 }}
-      animate={{ opacity: 1, scale: 1 }}
-      exit={{ opacity: 0, scale: 0.95 }}
-      className="max-w-2xl w-full bg-white dark:bg-zinc-900 rounded-3xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6 overflow-y-auto max-h-[92vh]"
-    >
-      {/* Header */}
-      <div className="flex justify-between items-center mb-6">
-        <h2 className="text-2xl font-bold dark:text-white">トレーニング統計</h2>
-        <div className="flex items-center gap-2">
+    <div className="mt-8 text-left border-t border-zinc-100 dark:border-zinc-800 pt-6">
+      <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3">ノルム設定</p>
+      <div className="bg-zinc-50 dark:bg-zinc-800 rounded-2xl p-4 border border-zinc-100 dark:border-zinc-700 space-y-3 text-sm">
+        <div className="flex justify-between items-center">
+          <span className="text-zinc-500 dark:text-zinc-400">使用中</span>
+          <span className="font-bold text-zinc-800 dark:text-zinc-100">{norms.name} <span className="font-mono text-xs text-zinc-400">({norms.version})</span></span>
+        </div>
+        {bands.length > 0 && (
+          <div className="flex justify-between items-center">
+            <span className="text-zinc-500 dark:text-zinc-400">年齢帯</span>
+            <select
+              value={ageBand ?? ''}
+              onChange={e => onChangeNorms(norms === DEFAULT_NORMS ? null : norms, e.target.value || null)}
+              className="bg-white dark:bg-zinc-700 border border-zinc-200 dark:border-zinc-600 rounded-lg px-2 py-1 font-bold"
+            >
+              <option value="">指定なし</option>
+              {bands.map(b => <option key={b} value={b}>{b}</option>)}
+            </select>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={loadFile} />
+          <button onClick={() => fileRef.current?.click()} className="flex-1 py-2 bg-white dark:bg-zinc-700 border border-zinc-200 dark:border-zinc-600 rounded-xl font-bold text-zinc-700 dark:text-zinc-200">
+            JSONを読み込む
+          </button>
+          {norms !== DEFAULT_NORMS && (
+            <button onClick={() => onChangeNorms(null, null)} className="flex-1 py-2 bg-white dark:bg-zinc-700 border border-zinc-200 dark:border-zinc-600 rounded-xl font-bold text-zinc-700 dark:text-zinc-200">
+              標準に戻す
+            </button>
+          )}
+        </div>
+        {outdated > 0 && (
+          <button onClick={onRescore} className="w-full py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold transition-colors">
+            {outdated}件の記録を現在のノルムで再採点
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function DataTransfer({ stats, assessments, profile, onImport }: {
+  stats: StatEntry[],
+  assessments: Assessment[],
+  profile: storage.Profile,
+  onImport: (added: StatEntry[], assessments: Assessment[]) => void,
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  const download = (filename: string, content: string, type: string) => {
+    saveFile(filename, content, type).catch(e => alert(`書き出しに失敗しました: ${(e as Error).message}`));
+  };
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPreview(previewImport(await file.text(), stats, assessments));
+    } catch (err) {
+      alert(`ファイルを読み込めませんでした: ${(err as Error).message}`);
+    }
+  };
+
+  const buttonClass = 'py-2 bg-white dark:bg-zinc-700 border border-zinc-200 dark:border-zinc-600 rounded-xl font-bold text-zinc-700 dark:text-zinc-200';
+
+  return (
+    <div className="mt-8 text-left border-t border-zinc-100 dark:border-zinc-800 pt-6">
+      <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3">データの書き出し・読み込み</p>
+      <div className="bg-zinc-50 dark:bg-zinc-800 rounded-2xl p-4 border border-zinc-100 dark:border-zinc-700 space-y-3 text-sm">
+        <div className="grid grid-cols-3 gap-2">
+          <button onClick={() => download(`psi-training-${stamp}.json`, exportJson(stats, assessments, { id: remoteProfileId(profile.id), name: profile.name }), 'application/json')} disabled={stats.length === 0 && assessments.length === 0} className={`${buttonClass} disabled:opacity-40`}>
+            JSON
+          </button>
+          <button onClick={() => download(`psi-sessions-${stamp}.csv`, exportSessionsCsv(stats), 'text/csv')} disabled={stats.length === 0} className={`${buttonClass} disabled:opacity-40`}>
+            CSV（記録）
+          </button>
+          <button onClick={() => download(`psi-trials-${stamp}.csv`, exportTrialsCsv(stats), 'text/csv')} disabled={!stats.some(s => s.trials?.length)} className={`${buttonClass} disabled:opacity-40`}>
+            CSV（試行）
+          </button>
+        </div>
+        <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={loadFile} />
+        <button onClick={() => fileRef.current?.click()} className={`w-full ${buttonClass}`}>
+          JSONから読み込む
+        </button>
+
+        {preview && (
+          <div className="p-3 bg-indigo-50/50 dark:bg-indigo-900/20 rounded-xl border border-indigo-100/50 dark:border-indigo-500/20 space-y-2">
+            <p className="font-bold text-indigo-900 dark:text-indigo-300">読み込みの確認</p>
+            <ul className="text-xs text-indigo-800/80 dark:text-indigo-400/80 space-y-0.5">
+              <li>新しい記録: {preview.added.length}件</li>
+              <li>重複（スキップ）: {preview.duplicates}件</li>
+              {preview.invalid > 0 && <li>不正な記録（スキップ）: {preview.invalid}件</li>}
+              {preview.assessments.length > 0 && <li>新しい評価: {preview.assessments.length}件</li>}
+            </ul>
+            <div className="flex gap-2">
+              <button
+                onClick={() => { onImport(preview.added, preview.assessments); setPreview(null); }}
+                disabled={preview.added.length === 0 && preview.assessments.length === 0}
+                className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold transition-colors disabled:opacity-40"
+              >
+                取り込む
+              </button>
+              <button onClick={() => setPreview(null)} className={`flex-1 ${buttonClass}`}>
+                キャンセル
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const PROFILE_COLORS = ['#4f46e5', '#10b981', '#f59e0b', '#ef4444', '#06b6d4', '#a855f7'];
+
+const GAME_COLORS: Record<Exclude<GameType, null>, string> = {
+  'symbol-match': '#4f46e5',
+  coding: '#10b981',
+  cancellation: '#f59e0b',
+  reaction: '#0ea5e9',
+};
+
+const REACTION_COLORS: Record<ReactionMode, string> = {
+  simple: '#0ea5e9',
+  choice2: '#06b6d4',
+  choice4: '#8b5cf6',
+  'go-nogo': '#ef4444',
+};
+
+type StatsTab = 'all' | Exclude<GameType, null>;
+
+function SyncSettings({ config, status, profiles, onChange, onSync, onAddProfile }: {
+  config: storage.SyncConfig | null,
+  status: SyncStatus,
+  profiles: storage.Profile[],
+  onChange: (config: storage.SyncConfig | null) => void,
+  onSync: () => void,
+  onAddProfile: (profile: RemoteProfile) => void,
+}) {
+  const [url, setUrl] = useState(config?.url ?? '');
+  const [token, setToken] = useState(config?.token ?? '');
+  const [remote, setRemote] = useState<RemoteProfile[] | null>(null);
+
+  const showRemote = async () => {
+    if (!config) return;
+    try {
+      setRemote(await fetchRemoteProfiles(config));
+    } catch (e) {
+      alert(`サーバーに接続できませんでした: ${(e as Error).message}`);
+    }
+  };
+
+  const buttonClass = 'py-2 bg-white dark:bg-zinc-700 border border-zinc-200 dark:border-zinc-600 rounded-xl font-bold text-zinc-700 dark:text-zinc-200 disabled:opacity-40';
+  const inputClass = 'w-full px-3 py-2 rounded-xl bg-white dark:bg-zinc-700 border border-zinc-200 dark:border-zinc-600 text-zinc-900 dark:text-white';
+  const localIds = new Set(profiles.map(p => remoteProfileId(p.id)));
+
+  return (
+    <div className="mt-8 text-left border-t border-zinc-100 dark:border-zinc-800 pt-6">
+      <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3">同期サーバー</p>
+      <div className="bg-zinc-50 dark:bg-zinc-800 rounded-2xl p-4 border border-zinc-100 dark:border-zinc-700 space-y-3 text-sm">
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          LAN内で <code className="font-mono">npm run server</code> を実行したPCのアドレスを入力すると、複数の端末で記録を共有できます。オフラインの間の記録は次回の同期で送信されます。正式評価の結果は同期されないため、JSONの書き出し・読み込みで移してください。
+        </p>
+        <input value={url} onChange={e => setUrl(e.target.value)} placeholder="http://192.168.0.10:8787" className={`${inputClass} font-mono`} />
+        <input value={token} onChange={e => setToken(e.target.value)} placeholder="アクセストークン（任意）" type="password" className={inputClass} />
+        <div className="grid grid-cols-2 gap-2">
           <button
-            onClick={() => { if (confirm('統計データをリセットしますか？')) onClearStats(); }}
-            className="p-2 bg-red-50 dark:bg-red-950/30 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full transition-colors text-red-500 dark:text-red-400"
-            title="データをリセット"
+            onClick={() => onChange(url.trim() ? { url: url.trim(), token: token.trim() } : null)}
+            disabled={url.trim() === (config?.url ?? '') && token.trim() === (config?.token ?? '')}
+            className={buttonClass}
           >
-            <Trash2 className="w-4 h-4" />
+            保存
           </button>
-          <button onClick={onHome} className="p-2 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-full transition-colors text-zinc-600 dark:text-zinc-400">
-            <X className="w-5 h-5" />
+          <button onClick={onSync} disabled={!config || status.busy} className={buttonClass}>
+            {status.busy ? '同期中…' : '今すぐ同期'}
           </button>
         </div>
+        {status.error && <p className="text-xs text-red-500 dark:text-red-400">{status.error}</p>}
+        {!status.error && status.lastSync && (
+          <p className="text-xs text-zinc-500 dark:text-zinc-400">最終同期 {dateLabel(status.lastSync)}{status.message && ` · ${status.message}`}</p>
+        )}
+
+        {config && (
+          <button onClick={showRemote} className={`w-full ${buttonClass}`}>
+            サーバーのプロフィールを表示
+          </button>
+        )}
+        {remote && (
+          <ul className="space-y-1">
+            {remote.length === 0 && <li className="text-xs text-zinc-500 dark:text-zinc-400">サーバーにプロフィールがありません。</li>}
+            {remote.map(p => (
+              <li key={p.id} className="flex items-center justify-between gap-2 px-3 py-2 bg-white dark:bg-zinc-700 rounded-xl">
+                <span className="min-w-0">
+                  <span className="font-bold text-zinc-700 dark:text-zinc-200">{p.name}</span>
+                  <span className="text-xs text-zinc-500 dark:text-zinc-400 ml-2">{p.sessions}回{p.lastSession !== null && ` · ${dateLabel(p.lastSession)}`}</span>
+                </span>
+                {localIds.has(p.id)
+                  ? <span className="text-xs text-zinc-400 shrink-0">この端末にあり</span>
+                  : <button onClick={() => onAddProfile(p)} className="text-xs font-bold text-indigo-600 dark:text-indigo-400 shrink-0">この端末に追加</button>}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
+    </div>
+  );
+}
 
-      {/* Tabs */}
-      <div className="flex bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl mb-6">
-        {([['all', 'すべて'], ['symbol-match', '記号探し'], ['coding', '符号']] as const).map(([val, label]) => (
-          <button key={val} onClick={() => setTab(val)}
-            className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${tab === val ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 dark:text-zinc-400'}`}
-          >{label}</button>
-        ))}
+function ProfileComparison({ profiles, profileId, stats, tab, darkMode }: {
+  profiles: storage.Profile[],
+  profileId: string,
+  stats: StatEntry[],
+  tab: StatsTab,
+  darkMode: boolean,
+}) {
+  const [byProfile, setByProfile] = useState<StatEntry[][] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(profiles.map(p => p.id === profileId ? stats : storage.loadStats(p.id).then(r => r.stats)))
+      .then(all => { if (!cancelled) setByProfile(all); });
+    return () => { cancelled = true; };
+  }, [profiles, profileId, stats]);
+
+  if (!byProfile) return null;
+
+  const { tooltipStyle, tickStyle, gridColor } = chartStyles(darkMode);
+  const filteredByProfile = byProfile.map(entries => entries.filter(s => !isBenchmark(s) && (tab === 'all' ? !isWarmUp(s.gameType) : s.gameType === tab)));
+  // Sessions are aligned by their number rather than date so learning curves line up
+  const longest = Math.max(0, ...filteredByProfile.map(e => e.length));
+  const chartData = Array.from({ length: longest }, (_, i) => ({
+    session: i + 1,
+    ...Object.fromEntries(profiles.map((p, j) => [p.id, filteredByProfile[j][i]?.psi])),
+  }));
+
+  return (
+    <div className="mb-6">
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-zinc-500 dark:text-zinc-400">
+              <th className="text-left font-medium py-2">プロフィール</th>
+              <th className="text-right font-medium">回数</th>
+              <th className="text-right font-medium">平均PSI</th>
+              <th className="text-right font-medium">最高PSI</th>
+              <th className="text-right font-medium">正答率</th>
+            </tr>
+          </thead>
+          <tbody>
+            {profiles.map((p, i) => {
+              const summary = summarizeStats(filteredByProfile[i]);
+              return (
+                <tr key={p.id} className="border-t border-zinc-100 dark:border-zinc-800 font-mono">
+                  <td className="py-2 font-sans font-bold" style={{ color: PROFILE_COLORS[i % PROFILE_COLORS.length] }}>{p.name}</td>
+                  <td className="text-right">{summary.count}</td>
+                  <td className="text-right">{summary.scoredCount > 0 ? summary.avgPsi : '-'}</td>
+                  <td className="text-right">{summary.scoredCount > 0 ? summary.bestPsi : '-'}</td>
+                  <td className="text-right">{summary.count > 0 ? `${summary.avgAcc}%` : '-'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
       </div>
 
+      {longest > 0 && (
+        <>
+          <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3 flex items-center gap-1.5"><TrendingUp className="w-4 h-4" />PSI推移（セッション順）</p>
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                <XAxis dataKey="session" tick={tickStyle} axisLine={false} tickLine={false} interval="preserveStartEnd" />
+                <YAxis domain={[40, 160]} tick={tickStyle} axisLine={false} tickLine={false} />
+                <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: darkMode ? '#f4f4f5' : '#18181b' }} labelFormatter={(l: any) => `${l}回目`} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <ReferenceLine y={100} stroke={darkMode ? '#52525b' : '#a1a1aa'} strokeDasharray="4 4" />
+                {profiles.map((p, i) => (
+                  <Line key={p.id} type="monotone" dataKey={p.id} name={p.name} stroke={PROFILE_COLORS[i % PROFILE_COLORS.length]} strokeWidth={2.5} connectNulls dot={{ r: 2, strokeWidth: 0, fill: PROFILE_COLORS[i % PROFILE_COLORS.length] }} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const dateLabel = (date: number) => {
+  const d = new Date(date);
+  return `${d.getMonth() + 1}/${d.getDate()} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+// Assessments only: the shaded band is each result's 95% confidence interval
+function AssessmentTrend({ assessments, darkMode }: { assessments: Assessment[], darkMode: boolean }) {
+  if (assessments.length === 0) return null;
+
+  const { tooltipStyle, tickStyle, gridColor } = chartStyles(darkMode);
+  const data = assessments.map(a => ({ name: dateLabel(a.date), psi: a.psi, ci: a.psiCi }));
+  const latest = assessments[assessments.length - 1];
+
+  return (
+    <div className="mb-6 bg-indigo-50/50 dark:bg-indigo-950/20 p-4 rounded-2xl border border-indigo-100 dark:border-indigo-900/50">
+      <div className="flex justify-between items-baseline mb-3">
+        <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 flex items-center gap-1.5"><ClipboardCheck className="w-4 h-4" />PSI評価の推移（{assessments.length}回）</p>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">最新 <span className="font-mono font-bold text-indigo-600 dark:text-indigo-400 text-base">{latest.psi}</span>（{latest.psiCi[0]}–{latest.psiCi[1]}）</p>
+      </div>
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+            <XAxis dataKey="name" tick={tickStyle} axisLine={false} tickLine={false} interval="preserveStartEnd" />
+            <YAxis tick={tickStyle} axisLine={false} tickLine={false} domain={[40, 160]} />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              itemStyle={{ color: darkMode ? '#f4f4f5' : '#18181b' }}
+              formatter={(v: any, name: any) => Array.isArray(v) ? [`${v[0]}–${v[1]}`, '95%信頼区間'] : [v, name === 'psi' ? '合成PSI' : name]}
+            />
+            <ReferenceLine y={100} stroke={gridColor} strokeDasharray="4 4" />
+            <Area type="monotone" dataKey="ci" stroke="none" fill="#6366f1" fillOpacity={0.15} />
+            <Line type="monotone" dataKey="psi" stroke="#6366f1" strokeWidth={2.5} dot={{ r: 3, fill: '#6366f1', strokeWidth: 0 }} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+const GOAL_FIELDS: [keyof Goals, string, string][] = [
+  ['targetPsi', '目標PSI', ''],
+  ['sessionsPerWeek', '週あたりのセッション', '回'],
+  ['accuracy', '目標正答率', '%'],
+];
+
+function GoalsPanel({ stats, goals, onChangeGoals }: { stats: StatEntry[], goals: Goals, onChangeGoals: (goals: Goals) => void }) {
+  const [editing, setEditing] = useState(false);
+  const now = new Date();
+  const status = goalStatus(goals, stats, now);
+  const streak = practiceStreak(stats, now);
+  const achievements = unlockedAchievements(stats);
+  const unlocked = new Map(achievements.map(a => [a.id, a.unlockedAt]));
+
+  const setGoal = (key: keyof Goals, text: string) => {
+    const value = parseFloat(text);
+    onChangeGoals({ ...goals, [key]: text.trim() === '' || !Number.isFinite(value) ? null : clampGoal(key, value) });
+  };
+
+  return (
+    <div className="mb-6 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl p-4 border border-zinc-100 dark:border-zinc-800">
+      <div className="flex justify-between items-center mb-3">
+        <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 flex items-center gap-1.5"><Target className="w-4 h-4" />目標と実績</p>
+        <button onClick={() => setEditing(!editing)} className="text-xs font-bold text-indigo-600 dark:text-indigo-400">
+          {editing ? '完了' : '目標を設定'}
+        </button>
+      </div>
+
+      {editing && (
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          {GOAL_FIELDS.map(([key, label, unit]) => (
+            <label key={key} className="text-xs text-zinc-500 dark:text-zinc-400">
+              {label}{unit && `（${unit}）`}
+              <input
+                type="number"
+                min={GOAL_RANGES[key][0]}
+                max={GOAL_RANGES[key][1]}
+                defaultValue={goals[key] ?? ''}
+                onBlur={e => setGoal(key, e.target.value)}
+                placeholder="なし"
+                className="mt-1 w-full px-2 py-1.5 rounded-lg bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 text-sm font-mono text-zinc-900 dark:text-white"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {status.length > 0
+        ? <div className="mb-4"><GoalList goals={status} /></div>
+        : !editing && <p className="text-xs text-zinc-400 dark:text-zinc-500 mb-4">目標を設定すると、達成状況がここに表示されます。</p>}
+
+      <div className="flex gap-4 mb-4 text-sm">
+        <span className="flex items-center gap-1 font-bold text-amber-600 dark:text-amber-400"><Flame className="w-4 h-4" />連続 {streak.current}日</span>
+        <span className="text-zinc-500 dark:text-zinc-400">最長 <span className="font-bold text-zinc-700 dark:text-zinc-200">{streak.longest}日</span></span>
+        <span className="ml-auto text-zinc-500 dark:text-zinc-400">実績 <span className="font-bold text-zinc-700 dark:text-zinc-200">{achievements.length}/{ACHIEVEMENTS.length}</span></span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {ACHIEVEMENTS.map(a => {
+          const at = unlocked.get(a.id);
+          return (
+            <div
+              key={a.id}
+              title={a.description}
+              className={`flex items-center gap-2 p-2 rounded-xl border ${at ? 'bg-amber-50 dark:bg-amber-950/30 border-amber-200 dark:border-amber-900' : 'border-zinc-200 dark:border-zinc-700 opacity-50'}`}
+            >
+              <Trophy className={`w-4 h-4 shrink-0 ${at ? 'text-amber-500' : 'text-zinc-400'}`} />
+              <div className="min-w-0">
+                <div className="text-xs font-bold text-zinc-700 dark:text-zinc-200 truncate">{a.name}</div>
+                <div className="text-[10px] text-zinc-500 dark:text-zinc-400 truncate">{at ? dateLabel(at) : a.description}</div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function GameTabs({ tab, onChange }: { tab: StatsTab, onChange: (tab: StatsTab) => void }) {
+  return (
+    <div className="flex bg-zinc-100 dark:bg-zinc-800 p-1 rounded-xl mb-6">
+      {([['all', 'すべて'], ...GAMES.map(g => [g, GAME_LABELS[g]])] as [StatsTab, string][]).map(([val, label]) => (
+        <button key={val} onClick={() => onChange(val)}
+          className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${tab === val ? 'bg-white dark:bg-zinc-700 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 dark:text-zinc-400'}`}
+        >{label}</button>
+      ))}
+    </div>
+  );
+}
+
+// Summary cards and trend charts for one tab; shared by the stats screen and the coach drill-down
+function SessionCharts({ stats, tab, darkMode, customSymbolSets }: {
+  stats: StatEntry[],
+  tab: StatsTab,
+  darkMode: boolean,
+  customSymbolSets: CustomSymbolSet[],
+  key?: React.Key,
+}) {
+  const [configFilter, setConfigFilter] = useState<string>('all');
+  // Guessed sessions would inflate the best and skew the averages, so they're left out unless asked for
+  const [includeInvalid, setIncludeInvalid] = useState(false);
+  const forAverage = (entries: StatEntry[]) => includeInvalid ? entries : entries.filter(isValidSession);
+  const meanPsi = (entries: StatEntry[]) => {
+    const counted = forAverage(entries);
+    return counted.length > 0 ? Math.round(counted.reduce((a, s) => a + s.psi, 0) / counted.length) : '-';
+  };
+
+  const configGroups = Array.from(
+    stats.reduce((groups, s) => {
+      const key = configKey(s);
+      const group = groups.get(key) ?? { key, label: configLabel(s, id => symbolSetName(id, customSymbolSets)), entries: [] as StatEntry[] };
+      group.entries.push(s);
+      return groups.set(key, group);
+    }, new Map<string, { key: string, label: string, entries: StatEntry[] }>()).values()
+  );
+  // Benchmarks stay out of the overall figures; picking their configuration shows them
+  const filtered = configFilter === 'all' ? stats.filter(s => !isBenchmark(s)) : stats.filter(s => configKey(s) === configFilter);
+
+  const chartData = filtered.map((s) => {
+    const rt = computeRtStats(s.trials);
+    return {
+      name: dateLabel(s.date),
+      psi: isWarmUp(s.gameType) ? undefined : s.psi,
+      accuracy: s.score + s.mistakes > 0 ? Math.round((s.score / (s.score + s.mistakes)) * 100) : 0,
+      ratePerMin: s.elapsed > 0 ? Math.round((s.score / s.elapsed) * 60 * 10) / 10 : 0,
+      gameType: s.gameType,
+      reactionMode: s.config?.reactionMode,
+      medianRt: rt?.median,
+      rtSd: rt?.sd,
+    };
+  });
+  const hasRtData = chartData.some(d => d.medianRt !== undefined);
+  // One line per game so RTs from different tasks aren't joined up
+  const rtGames = tab === 'all' ? GAMES : [tab];
+  // PSI gains next to warm-up RTs show whether a gain is more than raw speed
+  const reactionModes = (Object.keys(REACTION_COLORS) as ReactionMode[])
+    .filter(m => chartData.some(d => d.gameType === 'reaction' && d.reactionMode === m && d.medianRt !== undefined));
+  const showBaseline = tab === 'all' && reactionModes.length > 0 && chartData.some(d => d.psi !== undefined);
+
+  const invalidCount = filtered.filter(s => !isValidSession(s)).length;
+  const averaged = forAverage(filtered);
+  const { scoredCount, avgPsi, bestPsi, avgAcc } = summarizeStats(averaged);
+  const hasPsi = filtered.some(s => !isWarmUp(s.gameType));
+
+  const { tooltipStyle, tickStyle, gridColor } = chartStyles(darkMode);
+
+  return (
+    <>
+      {/* Configuration Filter */}
+      {configGroups.length > 1 && (
+        <select
+          value={configFilter}
+          onChange={e => setConfigFilter(e.target.value)}
+          className="w-full mb-6 bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-200 text-sm font-bold rounded-xl px-3 py-2 border-none"
+        >
+          <option value="all">すべての条件</option>
+          {configGroups.map(g => <option key={g.key} value={g.key}>{g.label}（{g.entries.length}回）</option>)}
+        </select>
+      )}
+
       {filtered.length === 0 ? (
         <div className="text-center text-zinc-500 dark:text-zinc-400 py-16">データがありません。プレイして記録を残しましょう！</div>
       ) : (
@@ -787,9 +3405,9 @@ function StatsScreen({ stats, onHome, darkMode, onClearStats }: { stats: StatEnt
           <div className="grid grid-cols-4 gap-3 mb-6">
             {[
               { label: 'セッション', value: filtered.length, unit: '回', color: 'text-zinc-800 dark:text-zinc-100' },
-              { label: '平均PSI', value: avgPsi, unit: '', color: 'text-indigo-600 dark:text-indigo-400' },
-              { label: '最高PSI', value: bestPsi, unit: '', color: 'text-emerald-600 dark:text-emerald-400' },
-              { label: '平均正答率', value: avgAcc, unit: '%', color: 'text-amber-600 dark:text-amber-400' },
+              { label: '平均PSI', value: scoredCount > 0 ? avgPsi : '-', unit: '', color: 'text-indigo-600 dark:text-indigo-400' },
+              { label: '最高PSI', value: scoredCount > 0 ? bestPsi : '-', unit: '', color: 'text-emerald-600 dark:text-emerald-400' },
+              { label: '平均正答率', value: averaged.length > 0 ? avgAcc : '-', unit: '%', color: 'text-amber-600 dark:text-amber-400' },
             ].map(({ label, value, unit, color }) => (
               <div key={label} className="bg-zinc-50 dark:bg-zinc-800 rounded-2xl p-3 text-center border border-zinc-100 dark:border-zinc-700">
                 <div className={`text-2xl font-black font-mono ${color}`}>{value}<span className="text-sm font-bold">{unit}</span></div>
@@ -797,29 +3415,60 @@ function StatsScreen({ stats, onHome, darkMode, onClearStats }: { stats: StatEnt
               </div>
             ))}
           </div>
+          {invalidCount > 0 && (
+            <label className="flex items-center gap-2 -mt-3 mb-6 text-xs text-zinc-500 dark:text-zinc-400">
+              <input type="checkbox" checked={includeInvalid} onChange={e => setIncludeInvalid(e.target.checked)} className="accent-indigo-600" />
+              推測と判定されたセッション（{invalidCount}回）を平均に含める
+            </label>
+          )}
+
+          {/* Per-configuration Summary */}
+          {configFilter === 'all' && configGroups.length > 1 && (
+            <div className="mb-6">
+              <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3">条件別</p>
+              <div className="space-y-1">
+                {configGroups.map(g => (
+                  <button
+                    key={g.key}
+                    onClick={() => setConfigFilter(g.key)}
+                    className="w-full flex justify-between items-center px-3 py-2 bg-zinc-50 dark:bg-zinc-800 hover:bg-zinc-100 dark:hover:bg-zinc-700 rounded-xl text-sm transition-colors"
+                  >
+                    <span className="text-zinc-700 dark:text-zinc-200">{g.label}</span>
+                    <span className="font-mono text-zinc-500 dark:text-zinc-400">
+                      {g.entries.length}回 · {isWarmUp(g.entries[0].gameType)
+                        ? `RT ${Math.round(g.entries.reduce((a, s) => a + (computeRtStats(s.trials)?.median ?? 0), 0) / g.entries.length)}ms`
+                        : `PSI ${meanPsi(g.entries)}`}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
 
           {/* PSI Trend */}
-          <div className="mb-6">
-            <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3 flex items-center gap-1.5"><TrendingUp className="w-4 h-4" />PSI推移</p>
-            <div className="h-48">
-              <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={chartData} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
-                  <defs>
-                    <linearGradient id="psiGrad" x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="5%" stopColor="#4f46e5" stopOpacity={0.15} />
-                      <stop offset="95%" stopColor="#4f46e5" stopOpacity={0} />
-                    </linearGradient>
-                  </defs>
-                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
-                  <XAxis dataKey="name" tick={tickStyle} axisLine={false} tickLine={false} interval="preserveStartEnd" />
-                  <YAxis domain={[40, 160]} tick={tickStyle} axisLine={false} tickLine={false} />
-                  <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: darkMode ? '#f4f4f5' : '#18181b' }} formatter={(v: any) => [`${v}`, 'PSI']} />
-                  <ReferenceLine y={100} stroke={darkMode ? '#52525b' : '#a1a1aa'} strokeDasharray="4 4" />
-                  <Area type="monotone" dataKey="psi" stroke="#4f46e5" strokeWidth={2.5} fill="url(#psiGrad)" dot={{ r: 3, fill: '#4f46e5', strokeWidth: 0 }} activeDot={{ r: 5 }} />
-                </AreaChart>
-              </ResponsiveContainer>
+          {hasPsi && (
+            <div className="mb-6">
+              <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3 flex items-center gap-1.5"><TrendingUp className="w-4 h-4" />PSI推移</p>
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={chartData} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+                    <defs>
+                      <linearGradient id="psiGrad" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor="#4f46e5" stopOpacity={0.15} />
+                        <stop offset="95%" stopColor="#4f46e5" stopOpacity={0} />
+                      </linearGradient>
+                    </defs>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                    <XAxis dataKey="name" tick={tickStyle} axisLine={false} tickLine={false} interval="preserveStartEnd" />
+                    <YAxis domain={[40, 160]} tick={tickStyle} axisLine={false} tickLine={false} />
+                    <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: darkMode ? '#f4f4f5' : '#18181b' }} formatter={(v: any) => [`${v}`, 'PSI']} />
+                    <ReferenceLine y={100} stroke={darkMode ? '#52525b' : '#a1a1aa'} strokeDasharray="4 4" />
+                    <Area type="monotone" dataKey="psi" stroke="#4f46e5" strokeWidth={2.5} fill="url(#psiGrad)" connectNulls dot={{ r: 3, fill: '#4f46e5', strokeWidth: 0 }} activeDot={{ r: 5 }} />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Accuracy Trend */}
           <div className="mb-6">
@@ -864,8 +3513,340 @@ function StatsScreen({ stats, onHome, darkMode, onClearStats }: { stats: StatEnt
               </ResponsiveContainer>
             </div>
           </div>
+
+          {showBaseline && (
+            <div className="mt-6 mb-2">
+              <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3">PSIと反応時間の比較</p>
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 4, right: -10, bottom: 0, left: -20 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                    <XAxis dataKey="name" tick={tickStyle} axisLine={false} tickLine={false} interval="preserveStartEnd" />
+                    <YAxis yAxisId="psi" domain={[40, 160]} tick={tickStyle} axisLine={false} tickLine={false} />
+                    <YAxis yAxisId="rt" orientation="right" tick={tickStyle} axisLine={false} tickLine={false} domain={['auto', 'auto']} />
+                    <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: darkMode ? '#f4f4f5' : '#18181b' }} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <Line yAxisId="psi" type="monotone" dataKey="psi" name="PSI" stroke="#4f46e5" strokeWidth={2.5} connectNulls dot={{ r: 3, fill: '#4f46e5', strokeWidth: 0 }} />
+                    {reactionModes.map(m => (
+                      <Line key={m} yAxisId="rt" type="monotone" dataKey={(d: any) => d.gameType === 'reaction' && d.reactionMode === m ? d.medianRt : undefined} name={`${REACTION_MODE_LABELS[m]} RT (ms)`} stroke={REACTION_COLORS[m]} strokeWidth={2} strokeDasharray="4 3" connectNulls dot={{ r: 3, fill: REACTION_COLORS[m], strokeWidth: 0 }} />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
+          {hasRtData && (
+            <>
+              {/* Median RT Trend */}
+              <div className="mt-6 mb-6">
+                <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3 flex items-center gap-1.5"><Timer className="w-4 h-4" />反応時間 中央値 推移 (ms)</p>
+                <div className="h-40">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData} margin={{ top: 4, right: 8, bottom: 0, left: -10 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                      <XAxis dataKey="name" tick={tickStyle} axisLine={false} tickLine={false} interval="preserveStartEnd" />
+                      <YAxis tick={tickStyle} axisLine={false} tickLine={false} domain={['auto', 'auto']} />
+                      <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: darkMode ? '#f4f4f5' : '#18181b' }} formatter={(v: any) => `${v}ms`} />
+                      <Legend wrapperStyle={{ fontSize: 11 }} />
+                      {rtGames.map(g => (
+                        <Line key={g} type="monotone" dataKey={(d: any) => d.gameType === g ? d.medianRt : undefined} name={GAME_LABELS[g]} stroke={GAME_COLORS[g]} strokeWidth={2.5} connectNulls dot={{ r: 3, fill: GAME_COLORS[g], strokeWidth: 0 }} />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              {/* RT Variability Trend */}
+              <div className="mb-2">
+                <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-3">反応時間のばらつき (SD) 推移 (ms)</p>
+                <div className="h-40">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData} margin={{ top: 4, right: 8, bottom: 0, left: -10 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                      <XAxis dataKey="name" tick={tickStyle} axisLine={false} tickLine={false} interval="preserveStartEnd" />
+                      <YAxis tick={tickStyle} axisLine={false} tickLine={false} domain={['auto', 'auto']} />
+                      <Tooltip contentStyle={tooltipStyle} itemStyle={{ color: darkMode ? '#f4f4f5' : '#18181b' }} formatter={(v: any) => `${v}ms`} />
+                      <Legend wrapperStyle={{ fontSize: 11 }} />
+                      {rtGames.map(g => (
+                        <Line key={g} type="monotone" dataKey={(d: any) => d.gameType === g ? d.rtSd : undefined} name={GAME_LABELS[g]} stroke={GAME_COLORS[g]} strokeWidth={2.5} connectNulls dot={{ r: 3, fill: GAME_COLORS[g], strokeWidth: 0 }} />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </>
+          )}
         </>
       )}
+    </>
+  );
+}
+
+const trendLabel = (trend: number | null) =>
+  trend === null ? '' : trend > 0 ? ` ↑${trend}` : trend < 0 ? ` ↓${-trend}` : ' →';
+
+const ANOMALY_LABELS: Record<Anomaly['kind'], string> = {
+  drop: '急な低下',
+  'low-accuracy': '正答率が低い',
+};
+
+function CoachScreen({ syncConfig, customSymbolSets, darkMode, onHome }: {
+  syncConfig: storage.SyncConfig | null,
+  customSymbolSets: CustomSymbolSet[],
+  darkMode: boolean,
+  onHome: () => void,
+  key?: React.Key,
+}) {
+  const [trainees, setTrainees] = useState<Trainee[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [tab, setTab] = useState<StatsTab>('all');
+  const fileRef = useRef<HTMLInputElement>(null);
+  const summaries = useMemo(() => {
+    const now = new Date();
+    return trainees.map(t => summarizeTrainee(t, now)).sort((a, b) => a.trainee.name.localeCompare(b.trainee.name, 'ja'));
+  }, [trainees]);
+
+  // The same trainee can arrive from several files or from both sources; sessions merge by id
+  const addTrainees = (incoming: Trainee[]) => setTrainees(current => {
+    const byId = new Map<string, Trainee>(current.map(t => [t.id, t]));
+    incoming.forEach(t => {
+      const existing = byId.get(t.id);
+      if (!existing) {
+        byId.set(t.id, t);
+        return;
+      }
+      const known = new Set(existing.stats.map(s => s.id));
+      byId.set(t.id, { ...existing, stats: mergeStats(existing.stats, t.stats.filter(s => !known.has(s.id))) });
+    });
+    return [...byId.values()];
+  });
+
+  const loadServer = async () => {
+    if (!syncConfig) return;
+    setLoading(true);
+    try {
+      const profiles = await fetchRemoteProfiles(syncConfig);
+      addTrainees(await Promise.all(profiles.map(async p => ({ id: p.id, name: p.name, stats: await fetchRemoteSessions(syncConfig, p.id) }))));
+    } catch (e) {
+      alert(`サーバーから読み込めませんでした: ${(e as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Files without a profile (older exports) are named after the file
+  const loadFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const loaded: Trainee[] = [];
+    for (const file of files) {
+      try {
+        const { profile, stats } = readExport(await file.text());
+        const name = file.name.replace(/\.json$/i, '');
+        loaded.push({ id: profile?.id ?? `file:${name}`, name: profile?.name ?? name, stats });
+      } catch (err) {
+        alert(`${file.name} を読み込めませんでした: ${(err as Error).message}`);
+      }
+    }
+    addTrainees(loaded);
+  };
+
+  const current = summaries.find(s => s.trainee.id === selected);
+  const buttonClass = 'py-2 bg-white dark:bg-zinc-700 border border-zinc-200 dark:border-zinc-600 rounded-xl font-bold text-zinc-700 dark:text-zinc-200 disabled:opacity-40';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      className="max-w-2xl w-full bg-white dark:bg-zinc-900 rounded-3xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6 overflow-y-auto max-h-[92vh]"
+    >
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold dark:text-white truncate">{current ? current.trainee.name : 'コーチ用ダッシュボード'}</h2>
+        <div className="flex items-center gap-2">
+          {current && (
+            <button onClick={() => setSelected(null)} className="p-2 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-full transition-colors text-zinc-600 dark:text-zinc-400" title="一覧に戻る">
+              <Users className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={onHome} className="p-2 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-full transition-colors text-zinc-600 dark:text-zinc-400">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {current ? (
+        <>
+          <div className="grid grid-cols-3 gap-3 mb-6">
+            {[
+              { label: 'セッション', value: `${current.trainee.stats.length}回` },
+              { label: current.adherenceSource === 'program' ? 'プログラム実施率' : `直近${ADHERENCE_DAYS}日の実施率`, value: current.adherence === null ? '-' : `${current.adherence}%` },
+              { label: '最終実施', value: current.lastSession ? dateLabel(current.lastSession) : '-' },
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-zinc-50 dark:bg-zinc-800 rounded-2xl p-3 text-center border border-zinc-100 dark:border-zinc-700">
+                <div className="text-lg font-black font-mono text-zinc-800 dark:text-zinc-100">{value}</div>
+                <div className="text-xs text-zinc-500 dark:text-zinc-400 mt-1">{label}</div>
+              </div>
+            ))}
+          </div>
+
+          {(() => {
+            const anomalies = findAnomalies(current.trainee.stats).reverse();
+            return anomalies.length > 0 && (
+              <div className="mb-6 text-left">
+                <p className="text-sm font-bold text-zinc-500 dark:text-zinc-400 mb-2 flex items-center gap-1.5"><AlertTriangle className="w-4 h-4 text-amber-500" />注意が必要なセッション</p>
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {anomalies.map(a => (
+                    <li key={`${a.kind}-${a.session.id}`} className="flex justify-between gap-2 px-3 py-2 bg-amber-50 dark:bg-amber-950/30 rounded-xl text-xs">
+                      <span className="font-bold text-amber-700 dark:text-amber-300">{ANOMALY_LABELS[a.kind]} · {a.session.gameType && GAME_LABELS[a.session.gameType]}</span>
+                      <span className="text-zinc-600 dark:text-zinc-300">{a.detail} · {dateLabel(a.session.date)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })()}
+
+          <GameTabs tab={tab} onChange={setTab} />
+          <SessionCharts
+            key={`${current.trainee.id}-${tab}`}
+            stats={tab === 'all' ? current.trainee.stats : current.trainee.stats.filter(s => s.gameType === tab)}
+            tab={tab}
+            darkMode={darkMode}
+            customSymbolSets={customSymbolSets}
+          />
+        </>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2 mb-6 text-sm">
+            <button onClick={loadServer} disabled={!syncConfig || loading} className={buttonClass}>
+              {loading ? '読み込み中…' : '同期サーバーから読み込む'}
+            </button>
+            <input ref={fileRef} type="file" accept="application/json,.json" multiple className="hidden" onChange={loadFiles} />
+            <button onClick={() => fileRef.current?.click()} className={buttonClass}>
+              書き出しファイルを読み込む
+            </button>
+          </div>
+          {!syncConfig && <p className="text-xs text-zinc-400 dark:text-zinc-500 -mt-4 mb-6">同期サーバーは統計画面で設定できます。</p>}
+
+          {summaries.length === 0 ? (
+            <div className="text-center text-zinc-500 dark:text-zinc-400 py-16">トレーニーのデータを読み込んでください。</div>
+          ) : (
+            <ul className="space-y-2 text-left">
+              {summaries.map(s => (
+                <li key={s.trainee.id}>
+                  <button
+                    onClick={() => { setSelected(s.trainee.id); setTab('all'); }}
+                    className="w-full p-3 bg-zinc-50 dark:bg-zinc-800 hover:bg-zinc-100 dark:hover:bg-zinc-700 rounded-2xl border border-zinc-100 dark:border-zinc-700 text-left transition-colors"
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <span className="font-bold text-zinc-800 dark:text-zinc-100 truncate">{s.trainee.name}</span>
+                      {s.anomalies.length > 0 && (
+                        <span className="flex items-center gap-1 text-xs font-bold text-amber-600 dark:text-amber-400 shrink-0">
+                          <AlertTriangle className="w-3.5 h-3.5" />
+                          {s.anomalies.length}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-zinc-500 dark:text-zinc-400">
+                      {s.games.map(g => (
+                        <span key={g.gameType}>
+                          {GAME_LABELS[g.gameType]} <span className="font-mono font-bold text-zinc-700 dark:text-zinc-200">{g.latest}</span>
+                          <span className={g.trend !== null && g.trend < 0 ? 'text-red-500' : 'text-emerald-600 dark:text-emerald-400'}>{trendLabel(g.trend)}</span>
+                        </span>
+                      ))}
+                      <span className="ml-auto">実施率 {s.adherence === null ? '-' : `${s.adherence}%`} · {s.lastSession ? dateLabel(s.lastSession) : '記録なし'}</span>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+}
+
+function StatsScreen({ stats, assessments, goals, onChangeGoals, onHome, darkMode, onClearStats, norms, ageBand, onChangeNorms, onRescore, onImport, syncConfig, syncStatus, onChangeSyncConfig, onSync, onAddRemoteProfile, profiles, profileId, customSymbolSets, advisor }: {
+  stats: StatEntry[],
+  assessments: Assessment[],
+  goals: Goals,
+  onChangeGoals: (goals: Goals) => void,
+  onHome: () => void,
+  darkMode: boolean,
+  onClearStats: () => void,
+  norms: NormTable,
+  ageBand: string | null,
+  onChangeNorms: (table: NormTable | null, band: string | null) => void,
+  onRescore: () => void,
+  onImport: (added: StatEntry[], assessments: Assessment[]) => void,
+  syncConfig: storage.SyncConfig | null,
+  syncStatus: SyncStatus,
+  onChangeSyncConfig: (config: storage.SyncConfig | null) => void,
+  onSync: () => void,
+  onAddRemoteProfile: (profile: RemoteProfile) => void,
+  profiles: storage.Profile[],
+  profileId: string,
+  customSymbolSets: CustomSymbolSet[],
+  advisor: AdviceProvider | null,
+  key?: React.Key,
+}) {
+  const [tab, setTab] = useState<StatsTab>('all');
+  const [compare, setCompare] = useState(false);
+
+  const byGame = tab === 'all' ? stats : stats.filter(s => s.gameType === tab);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      className="max-w-2xl w-full bg-white dark:bg-zinc-900 rounded-3xl shadow-sm border border-zinc-200 dark:border-zinc-800 p-6 overflow-y-auto max-h-[92vh]"
+    >
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold dark:text-white">トレーニング統計</h2>
+        <div className="flex items-center gap-2">
+          {profiles.length > 1 && (
+            <button
+              onClick={() => setCompare(!compare)}
+              className={`p-2 rounded-full transition-colors ${compare ? 'bg-indigo-600 text-white' : 'bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-600 dark:text-zinc-400'}`}
+              title="プロフィールを比較"
+            >
+              <User className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={() => { if (confirm('統計データをリセットしますか？')) onClearStats(); }}
+            className="p-2 bg-red-50 dark:bg-red-950/30 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full transition-colors text-red-500 dark:text-red-400"
+            title="データをリセット"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+          <button onClick={onHome} className="p-2 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 rounded-full transition-colors text-zinc-600 dark:text-zinc-400">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <GameTabs tab={tab} onChange={setTab} />
+
+      {tab === 'all' && !compare && <GoalsPanel stats={stats} goals={goals} onChangeGoals={onChangeGoals} />}
+      {tab === 'all' && !compare && <AssessmentTrend assessments={assessments} darkMode={darkMode} />}
+      {tab === 'all' && !compare && stats.length > 0 && <AdvicePanel advisor={advisor} stats={stats} goals={goals} latest={null} customSymbolSets={customSymbolSets} />}
+
+      {compare && (
+        <ProfileComparison profiles={profiles} profileId={profileId} stats={stats} tab={tab} darkMode={darkMode} />
+      )}
+
+      {!compare && <SessionCharts key={tab} stats={byGame} tab={tab} darkMode={darkMode} customSymbolSets={customSymbolSets} />}
+
+      <NormSettings stats={stats} norms={norms} ageBand={ageBand} onChangeNorms={onChangeNorms} onRescore={onRescore} />
+      <DataTransfer stats={stats} assessments={assessments} profile={profiles.find(p => p.id === profileId)!} onImport={onImport} />
+      <SyncSettings config={syncConfig} status={syncStatus} profiles={profiles} onChange={onChangeSyncConfig} onSync={onSync} onAddProfile={onAddRemoteProfile} />
     </motion.div>
   );
 }
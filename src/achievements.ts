@@ -0,0 +1,79 @@
+import { accuracyOf } from './analytics';
+import { configKey, isBenchmark, isWarmUp } from './config';
+import { dayNumber } from './goals';
+import type { GameType, StatEntry } from './types';
+import { isValidSession } from './validity';
+
+// Running totals over the history, updated one session at a time
+type History = {
+  sessions: number;
+  streak: number;
+  bestPsi: number;
+  games: Set<GameType>;
+  perfectRuns: number;
+  records: number; // times a per-configuration best was beaten
+};
+
+export type AchievementDef = {
+  id: string;
+  name: string;
+  description: string;
+  reached: (h: History) => boolean;
+};
+
+// Ids are stable: nothing is stored, but the result screen compares unlocks before and after a session
+export const ACHIEVEMENTS: AchievementDef[] = [
+  { id: 'first-session', name: 'はじめの一歩', description: '最初のセッションを完了', reached: h => h.sessions >= 1 },
+  { id: 'sessions-10', name: '習慣の芽', description: '10セッションを完了', reached: h => h.sessions >= 10 },
+  { id: 'sessions-50', name: '継続は力なり', description: '50セッションを完了', reached: h => h.sessions >= 50 },
+  { id: 'sessions-100', name: '百戦錬磨', description: '100セッションを完了', reached: h => h.sessions >= 100 },
+  { id: 'sessions-500', name: '処理速度の達人', description: '500セッションを完了', reached: h => h.sessions >= 500 },
+  { id: 'streak-3', name: '三日坊主卒業', description: '3日連続でトレーニング', reached: h => h.streak >= 3 },
+  { id: 'streak-7', name: '一週間皆勤', description: '7日連続でトレーニング', reached: h => h.streak >= 7 },
+  { id: 'streak-30', name: '一か月皆勤', description: '30日連続でトレーニング', reached: h => h.streak >= 30 },
+  { id: 'psi-100', name: '平均到達', description: 'PSI 100以上を記録', reached: h => h.bestPsi >= 100 },
+  { id: 'psi-115', name: '平均以上', description: 'PSI 115以上を記録', reached: h => h.bestPsi >= 115 },
+  { id: 'psi-130', name: '卓越', description: 'PSI 130以上を記録', reached: h => h.bestPsi >= 130 },
+  { id: 'all-tasks', name: 'オールラウンダー', description: '記号探し・符号・抹消をすべてプレイ', reached: h => ['symbol-match', 'coding', 'cancellation'].every(g => h.games.has(g as GameType)) },
+  { id: 'perfect', name: 'ノーミス', description: '20問以上を正答率100%で完了', reached: h => h.perfectRuns >= 1 },
+  { id: 'records-10', name: '記録更新の常連', description: '条件別の自己ベストを10回更新', reached: h => h.records >= 10 },
+];
+
+export type UnlockedAchievement = AchievementDef & { unlockedAt: number };
+
+// When each achievement was first earned, replaying the history in order
+export const unlockedAchievements = (stats: StatEntry[]): UnlockedAchievement[] => {
+  const h: History = { sessions: 0, streak: 0, bestPsi: 0, games: new Set(), perfectRuns: 0, records: 0 };
+  const bests = new Map<string, number>();
+  let lastDay: number | null = null;
+  const unlocked = new Map<string, number>();
+  // Guessed sessions earn nothing and don't set records for later ones to beat
+  [...stats].filter(isValidSession).sort((a, b) => a.date - b.date).forEach(s => {
+    h.sessions++;
+    const day = dayNumber(s.date);
+    if (day !== lastDay) h.streak = lastDay !== null && day === lastDay + 1 ? h.streak + 1 : 1;
+    lastDay = day;
+    h.games.add(s.gameType);
+    if (s.score + s.mistakes >= 20 && accuracyOf(s) === 100) h.perfectRuns++;
+    if (!isWarmUp(s.gameType) && !isBenchmark(s)) {
+      h.bestPsi = Math.max(h.bestPsi, s.psi);
+      const key = configKey(s);
+      const best = bests.get(key);
+      if (best !== undefined && s.psi > best) h.records++;
+      if (best === undefined || s.psi > best) bests.set(key, s.psi);
+    }
+    ACHIEVEMENTS.forEach(a => {
+      if (!unlocked.has(a.id) && a.reached(h)) unlocked.set(a.id, s.date);
+    });
+  });
+  return ACHIEVEMENTS.filter(a => unlocked.has(a.id)).map(a => ({ ...a, unlockedAt: unlocked.get(a.id)! }));
+};
+
+// Best PSI under the same configuration before `entry`; null for the first
+// session of its kind, and for a guessed one so it isn't shown as a record
+export const previousBest = (stats: StatEntry[], entry: StatEntry) => {
+  if (isWarmUp(entry.gameType) || !isValidSession(entry)) return null;
+  const key = configKey(entry);
+  const earlier = stats.filter(s => s.id !== entry.id && s.date <= entry.date && configKey(s) === key && isValidSession(s));
+  return earlier.length > 0 ? Math.max(...earlier.map(s => s.psi)) : null;
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { SYMBOL_MATCH_DEFAULT_LEVEL, createStaircase, stepStaircase, symbolMatchLevel, symbolMatchLevelFor, symbolMatchMaxLevel } from './adaptive';
+
+const run = (start: number, answers: boolean[]) =>
+  answers.reduce((s, correct) => stepStaircase(s, correct), createStaircase(start, 1, 5)).level;
+
+describe('staircase', () => {
+  it('goes up after two correct answers in a row and down after any mistake', () => {
+    expect(run(3, [true])).toBe(3);
+    expect(run(3, [true, true])).toBe(4);
+    expect(run(3, [true, false])).toBe(2);
+    // A mistake resets the streak
+    expect(run(3, [true, false, true])).toBe(2);
+    expect(run(3, [true, false, true, true])).toBe(3);
+  });
+
+  it('stays within its range', () => {
+    expect(createStaircase(9, 1, 5).level).toBe(5);
+    expect(run(5, [true, true, true, true])).toBe(5);
+    expect(run(1, [false, false])).toBe(1);
+  });
+});
+
+describe('記号探し levels', () => {
+  it('start adaptive sessions at the hardest level within the chosen layout', () => {
+    expect(symbolMatchLevel(SYMBOL_MATCH_DEFAULT_LEVEL)).toEqual({ targets: 2, searchSize: 5 });
+    expect(symbolMatchLevelFor(2, 5)).toBe(SYMBOL_MATCH_DEFAULT_LEVEL);
+    expect(symbolMatchLevelFor(1, 1)).toBe(1);
+  });
+
+  it('cap the level so targets and search items fit in the symbol set', () => {
+    const max = symbolMatchMaxLevel(8);
+    const { targets, searchSize } = symbolMatchLevel(max);
+    expect(targets + searchSize).toBeLessThanOrEqual(8);
+    expect(symbolMatchLevel(max + 1).targets + symbolMatchLevel(max + 1).searchSize).toBeGreaterThan(8);
+    expect(symbolMatchLevel(0)).toEqual(symbolMatchLevel(1));
+    expect(symbolMatchLevel(99)).toEqual({ targets: 4, searchSize: 10 });
+  });
+});
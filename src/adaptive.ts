@@ -0,0 +1,54 @@
+// 2-up/1-down staircase: two correct answers in a row raise the level,
+// any mistake lowers it. Converges on roughly 71% accuracy.
+export type Staircase = {
+  level: number;
+  streak: number;
+  min: number;
+  max: number;
+};
+
+const UP_AFTER = 2;
+
+export const createStaircase = (start: number, min: number, max: number): Staircase => ({
+  level: Math.max(min, Math.min(max, start)),
+  streak: 0,
+  min,
+  max,
+});
+
+export const stepStaircase = (s: Staircase, correct: boolean): Staircase => {
+  if (!correct) {
+    return { ...s, level: Math.max(s.min, s.level - 1), streak: 0 };
+  }
+  if (s.streak + 1 >= UP_AFTER) {
+    return { ...s, level: Math.min(s.max, s.level + 1), streak: 0 };
+  }
+  return { ...s, streak: s.streak + 1 };
+};
+
+// 記号探し difficulty ladder. Level 4 matches the fixed mode default (2 targets, 5 items).
+export const SYMBOL_MATCH_LEVELS = [
+  { targets: 1, searchSize: 3 },
+  { targets: 1, searchSize: 4 },
+  { targets: 2, searchSize: 4 },
+  { targets: 2, searchSize: 5 },
+  { targets: 2, searchSize: 6 },
+  { targets: 3, searchSize: 6 },
+  { targets: 3, searchSize: 7 },
+  { targets: 3, searchSize: 8 },
+  { targets: 4, searchSize: 8 },
+  { targets: 4, searchSize: 10 },
+];
+
+export const SYMBOL_MATCH_DEFAULT_LEVEL = 4;
+
+export const symbolMatchLevel = (level: number) =>
+  SYMBOL_MATCH_LEVELS[Math.max(1, Math.min(SYMBOL_MATCH_LEVELS.length, level)) - 1];
+
+// Targets and search items are all distinct, so small symbol sets cap the level
+export const symbolMatchMaxLevel = (setSize: number) =>
+  Math.max(1, SYMBOL_MATCH_LEVELS.filter(l => l.targets + l.searchSize <= setSize).length);
+
+// Adaptive sessions start at the hardest level that fits within the chosen layout
+export const symbolMatchLevelFor = (targets: number, searchSize: number) =>
+  Math.max(1, SYMBOL_MATCH_LEVELS.filter(l => l.targets <= targets && l.searchSize <= searchSize).length);
@@ -0,0 +1,157 @@
+import { accuracyOf } from './analytics';
+import { GAMES, GAME_LABELS, configLabel, isBenchmark, isWarmUp } from './config';
+import { dayNumber, practiceStreak } from './goals';
+import type { Goals } from './goals';
+import type { SyncConfig } from './storage';
+import { requestAdvice } from './sync';
+import type { GameType, StatEntry } from './types';
+
+// Personalised feedback on the training history. Only a summary leaves the
+// device: aggregates per task and the latest session, no names or ids.
+
+export type GameTrend = {
+  game: string;
+  sessions: number;
+  config: string; // conditions of the most recent session
+  recentPsi: number | null; // mean of the last TREND_WINDOW sessions; null for warm-ups
+  previousPsi: number | null; // mean of the window before
+  accuracy: number; // %, recent mean
+  responsesPerMinute: number; // recent mean
+  // Pearson r between speed and accuracy over the recent sessions; negative
+  // means the faster sessions were the less accurate ones
+  speedAccuracy: number | null;
+};
+
+export type SessionSummary = {
+  game: string;
+  config: string;
+  psi: number | null;
+  accuracy: number;
+  responsesPerMinute: number;
+  mistakes: number;
+  pauses: number;
+};
+
+export type TrainingSummary = {
+  totalSessions: number;
+  activeDays: number; // in the last ACTIVE_DAYS days
+  streak: number;
+  goals: Goals;
+  games: GameTrend[];
+  latest: SessionSummary | null; // the session just finished, when asked from the result screen
+};
+
+export type Advice = {
+  feedback: string;
+  recommendations: string[];
+};
+
+export interface AdviceProvider {
+  name: string;
+  advise(summary: TrainingSummary): Promise<Advice>;
+}
+
+const TREND_WINDOW = 5;
+const CORRELATION_WINDOW = 10;
+const ACTIVE_DAYS = 14;
+
+const mean = (values: number[]) => values.reduce((a, v) => a + v, 0) / values.length;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const responsesPerMinute = (s: StatEntry) => s.elapsed > 0 ? (s.score + s.mistakes) / s.elapsed * 60 : 0;
+
+const correlation = (xs: number[], ys: number[]) => {
+  const mx = mean(xs);
+  const my = mean(ys);
+  const cov = xs.reduce((a, x, i) => a + (x - mx) * (ys[i] - my), 0);
+  const sx = Math.sqrt(xs.reduce((a, x) => a + (x - mx) ** 2, 0));
+  const sy = Math.sqrt(ys.reduce((a, y) => a + (y - my) ** 2, 0));
+  return sx > 0 && sy > 0 ? round1(cov / (sx * sy)) : null;
+};
+
+const summarizeSession = (s: StatEntry, setName: (id: string) => string): SessionSummary => ({
+  game: s.gameType ? GAME_LABELS[s.gameType] : '',
+  config: configLabel(s, setName),
+  psi: isWarmUp(s.gameType) ? null : s.psi,
+  accuracy: Math.round(accuracyOf(s)),
+  responsesPerMinute: round1(responsesPerMinute(s)),
+  mistakes: s.mistakes,
+  pauses: s.pauses?.count ?? 0,
+});
+
+const gameTrend = (stats: StatEntry[], gameType: Exclude<GameType, null>, setName: (id: string) => string): GameTrend | null => {
+  const games = stats.filter(s => s.gameType === gameType && !isBenchmark(s));
+  if (games.length === 0) return null;
+  const recent = games.slice(-TREND_WINDOW);
+  const before = games.slice(-2 * TREND_WINDOW, -TREND_WINDOW);
+  const scored = !isWarmUp(gameType);
+  const window = games.slice(-CORRELATION_WINDOW);
+  return {
+    game: GAME_LABELS[gameType],
+    sessions: games.length,
+    config: configLabel(games[games.length - 1], setName),
+    recentPsi: scored ? Math.round(mean(recent.map(s => s.psi))) : null,
+    previousPsi: scored && before.length > 0 ? Math.round(mean(before.map(s => s.psi))) : null,
+    accuracy: Math.round(mean(recent.map(accuracyOf))),
+    responsesPerMinute: round1(mean(recent.map(responsesPerMinute))),
+    speedAccuracy: window.length >= 4 ? correlation(window.map(responsesPerMinute), window.map(accuracyOf)) : null,
+  };
+};
+
+export const summarizeForAdvice = (
+  stats: StatEntry[],
+  goals: Goals,
+  now: Date,
+  latest: StatEntry | null = null,
+  setName: (id: string) => string = id => id,
+): TrainingSummary => {
+  const sorted = [...stats].sort((a, b) => a.date - b.date);
+  const today = dayNumber(now.getTime());
+  return {
+    totalSessions: sorted.length,
+    activeDays: new Set(sorted.map(s => dayNumber(s.date)).filter(d => d > today - ACTIVE_DAYS && d <= today)).size,
+    streak: practiceStreak(sorted, now).current,
+    goals,
+    games: GAMES.map(g => gameTrend(sorted, g, setName)).filter((g): g is GameTrend => g !== null),
+    latest: latest ? summarizeSession(latest, setName) : null,
+  };
+};
+
+// Gemini, called by the sync server (see server/advice.ts) so the API key
+// never reaches the browser
+export const serverProvider = (config: SyncConfig): AdviceProvider => ({
+  name: 'Gemini（同期サーバー経由）',
+  advise: summary => requestAdvice(config, summary),
+});
+
+// Rule-based stand-in for developing and testing the panel without an API key
+export const mockProvider: AdviceProvider = {
+  name: 'モック',
+  advise: async (summary) => {
+    const scored = summary.games.filter(g => g.recentPsi !== null);
+    const feedback: string[] = [`これまでに${summary.totalSessions}回のセッションを行い、直近${ACTIVE_DAYS}日間では${summary.activeDays}日トレーニングしました。`];
+    const recommendations: string[] = [];
+    scored.forEach(g => {
+      if (g.previousPsi !== null) {
+        const diff = g.recentPsi! - g.previousPsi;
+        feedback.push(`${g.game}のPSIは${g.previousPsi}から${g.recentPsi}へ${diff >= 0 ? '上昇' : '低下'}しています。`);
+      } else {
+        feedback.push(`${g.game}の直近のPSIは${g.recentPsi}です。`);
+      }
+      if (g.accuracy < 85) recommendations.push(`${g.game}では速さより正確さを意識し、正答率${Math.min(95, g.accuracy + 10)}%を目指しましょう。`);
+      else if (g.speedAccuracy !== null && g.speedAccuracy < -0.3) recommendations.push(`${g.game}は速いときに誤りが増える傾向があります。一定のペースを保ちましょう。`);
+      else if (g.accuracy >= 95) recommendations.push(`${g.game}は正確さが十分です。次は条件を一段難しくしてみましょう。`);
+    });
+    const untried = GAMES.filter(g => !isWarmUp(g)).map(g => GAME_LABELS[g]).filter(label => !summary.games.some(g => g.game === label));
+    if (untried.length > 0) recommendations.push(`${untried.join('・')}にも取り組むと、処理速度をバランスよく鍛えられます。`);
+    if (summary.streak === 0) recommendations.push('まずは今日1セッション行い、連続記録を始めましょう。');
+    return { feedback: feedback.join(''), recommendations: recommendations.slice(0, 4) };
+  },
+};
+
+// Offered when the sync server has a Gemini key; ADVICE_PROVIDER=mock (set in
+// .env.local, injected by vite.config.ts) uses the local stand-in instead.
+export const adviceProvider = (config: SyncConfig | null, serverAdvice: boolean): AdviceProvider | null => {
+  if (process.env.ADVICE_PROVIDER === 'mock') return mockProvider;
+  return config && serverAdvice ? serverProvider(config) : null;
+};
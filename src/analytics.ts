@@ -0,0 +1,199 @@
+import { isWarmUp } from './config';
+import type { StatEntry, Trial } from './types';
+
+export type RtStats = {
+  count: number;
+  median: number;
+  mean: number;
+  sd: number;
+  // Mean RT after an error minus mean RT after a correct answer (ms)
+  postErrorSlowing: number | null;
+  // Median RT of correct trials in the first and last third of the session
+  fatigue: { first: number; last: number; change: number } | null;
+  curve: { segment: number; median: number; accuracy: number }[];
+  histogram: { bin: string; from: number; count: number }[];
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((a, v) => a + v, 0) / values.length : 0;
+
+const sd = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((a, v) => a + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+// Correctly withheld go/no-go responses have no RT
+const correctRts = (trials: Trial[]) =>
+  trials.filter(t => t.correct && !(t.gameType === 'reaction' && t.answer === null)).map(t => t.rt);
+
+const CURVE_SEGMENTS = 3;
+const HISTOGRAM_BINS = 10;
+
+const buildHistogram = (rts: number[]) => {
+  if (rts.length === 0) return [];
+  const min = Math.min(...rts);
+  const max = Math.max(...rts);
+  // Round bin width up to a multiple of 50ms so labels stay readable
+  const width = Math.max(50, Math.ceil((max - min + 1) / HISTOGRAM_BINS / 50) * 50);
+  const start = Math.floor(min / width) * width;
+  const bins = Math.floor((max - start) / width) + 1;
+  const counts = new Array(bins).fill(0);
+  rts.forEach(rt => counts[Math.floor((rt - start) / width)]++);
+  return counts.map((count, i) => ({ bin: `${start + i * width}`, from: start + i * width, count }));
+};
+
+export const computeRtStats = (trials: Trial[] = []): RtStats | null => {
+  const rts = correctRts(trials);
+  if (rts.length === 0) return null;
+
+  const afterError: number[] = [];
+  const afterCorrect: number[] = [];
+  for (let i = 1; i < trials.length; i++) {
+    (trials[i - 1].correct ? afterCorrect : afterError).push(trials[i].rt);
+  }
+  const postErrorSlowing = afterError.length > 0 && afterCorrect.length > 0
+    ? Math.round(mean(afterError) - mean(afterCorrect))
+    : null;
+
+  const segmentSize = Math.ceil(trials.length / CURVE_SEGMENTS);
+  const segments = Array.from({ length: CURVE_SEGMENTS }, (_, i) => trials.slice(i * segmentSize, (i + 1) * segmentSize));
+  const curve = segments
+    .filter(seg => seg.length > 0)
+    .map((seg, i) => ({
+      segment: i + 1,
+      median: Math.round(median(correctRts(seg))),
+      accuracy: Math.round((seg.filter(t => t.correct).length / seg.length) * 100),
+    }));
+
+  const first = median(correctRts(segments[0]));
+  const last = median(correctRts(segments[CURVE_SEGMENTS - 1]));
+  const fatigue = trials.length >= CURVE_SEGMENTS && first > 0 && last > 0
+    ? { first: Math.round(first), last: Math.round(last), change: Math.round(((last - first) / first) * 100) }
+    : null;
+
+  return {
+    count: rts.length,
+    median: Math.round(median(rts)),
+    mean: Math.round(mean(rts)),
+    sd: Math.round(sd(rts)),
+    postErrorSlowing,
+    fatigue,
+    curve,
+    histogram: buildHistogram(rts),
+  };
+};
+
+export type LearningCurve = {
+  blocks: { block: number; median: number; accuracy: number }[];
+  // Median RT of the last block relative to the first (%); negative = faster
+  improvement: number;
+  // b in RT = a * block^-b, fitted to the block medians; higher = faster learning
+  learningRate: number;
+};
+
+const LEARNING_BLOCK_SIZE = 10;
+
+// Speed-up across a fixed-key session as the mapping is memorised.
+// Only complete blocks are used so a short final block doesn't skew the fit.
+export const computeLearningCurve = (trials: Trial[] = [], blockSize = LEARNING_BLOCK_SIZE): LearningCurve | null => {
+  const blocks = Array.from({ length: Math.floor(trials.length / blockSize) }, (_, i) => trials.slice(i * blockSize, (i + 1) * blockSize))
+    .map((block, i) => ({
+      block: i + 1,
+      median: Math.round(median(correctRts(block))),
+      accuracy: Math.round((block.filter(t => t.correct).length / block.length) * 100),
+    }))
+    .filter(b => b.median > 0);
+  if (blocks.length < 2) return null;
+
+  const first = blocks[0].median;
+  const last = blocks[blocks.length - 1].median;
+
+  // Least squares on log(median) against log(block)
+  const xs = blocks.map(b => Math.log(b.block));
+  const ys = blocks.map(b => Math.log(b.median));
+  const mx = mean(xs);
+  const my = mean(ys);
+  const slope = xs.reduce((a, x, i) => a + (x - mx) * (ys[i] - my), 0) / xs.reduce((a, x) => a + (x - mx) ** 2, 0);
+
+  return {
+    blocks,
+    improvement: Math.round(((last - first) / first) * 100),
+    learningRate: Math.round(-slope * 100) / 100,
+  };
+};
+
+export type ReactionErrors = {
+  anticipations: number; // pressed before the stimulus or too fast to be a reaction
+  misses: number;        // no response to a stimulus that needed one
+  commissions: number;   // pressed on a no-go stimulus
+};
+
+export const summarizeReactionErrors = (trials: Trial[] = []): ReactionErrors => {
+  const reactions = trials.filter(t => t.gameType === 'reaction');
+  return {
+    anticipations: reactions.filter(t => t.anticipation).length,
+    misses: reactions.filter(t => t.answer === null && !(t.mode === 'go-nogo' && t.stimulus === 0)).length,
+    commissions: reactions.filter(t => t.mode === 'go-nogo' && t.stimulus === 0 && t.answer !== null && !t.anticipation).length,
+  };
+};
+
+export type SimilarityBand = {
+  label: string;
+  trials: number;
+  accuracy: number;    // %
+  falseAlarms: number; // 'あり' when no target was present
+};
+
+// Lower bounds of the closest distractor's similarity: unrelated, same family, transformed copy
+const SIMILARITY_BANDS = [
+  { label: '低', from: 0 },
+  { label: '中', from: 0.5 },
+  { label: '高', from: 0.7 },
+];
+
+// 記号探し accuracy by how close the nearest distractor was to a target.
+// Sessions from before similarity was recorded give no bands.
+export const accuracyBySimilarity = (trials: Trial[] = []): SimilarityBand[] => {
+  const lures = trials.flatMap(t => {
+    if (t.gameType !== 'symbol-match' || !t.similarity) return [];
+    const distractors = t.similarity.filter((_, i) => !t.targets.includes(t.searchGroup[i]));
+    return [{ trial: t, lure: Math.max(0, ...distractors) }];
+  });
+  return SIMILARITY_BANDS
+    .map(({ label, from }, i) => {
+      const to = SIMILARITY_BANDS[i + 1]?.from ?? Infinity;
+      const inBand = lures.filter(l => l.lure >= from && l.lure < to).map(l => l.trial);
+      return {
+        label,
+        trials: inBand.length,
+        accuracy: inBand.length > 0 ? Math.round((inBand.filter(t => t.correct).length / inBand.length) * 100) : 0,
+        falseAlarms: inBand.filter(t => !t.isMatch && t.answer).length,
+      };
+    })
+    .filter(b => b.trials > 0);
+};
+
+export const accuracyOf = (s: Pick<StatEntry, 'score' | 'mistakes'>) => {
+  const total = s.score + s.mistakes;
+  return total > 0 ? (s.score / total) * 100 : 0;
+};
+
+// Warm-up sessions count towards accuracy but not PSI
+export const summarizeStats = (stats: StatEntry[]) => {
+  const scored = stats.filter(s => !isWarmUp(s.gameType));
+  return {
+    count: stats.length,
+    scoredCount: scored.length,
+    avgPsi: scored.length > 0 ? Math.round(scored.reduce((a, s) => a + s.psi, 0) / scored.length) : 0,
+    bestPsi: scored.length > 0 ? Math.max(...scored.map(s => s.psi)) : 0,
+    avgAcc: stats.length > 0 ? Math.round(stats.reduce((a, s) => a + accuracyOf(s), 0) / stats.length) : 0,
+  };
+};
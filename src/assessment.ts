@@ -0,0 +1,47 @@
+import type { CancellationLayout, CodingMode, DistractorLevel, ReactionMode, StatEntry, TimeLimit } from './types';
+
+// Bump when the protocol changes so results from different protocols aren't compared
+export const ASSESSMENT_PROTOCOL_VERSION = 'psi-assessment-v1';
+
+export type AssessmentStep = {
+  gameType: 'symbol-match' | 'coding';
+  practice: boolean;
+  timeLimit: TimeLimit;
+  trialLimit: number | null;
+  seed: number;
+};
+
+const PRACTICE_TRIALS = 10;
+const SCORED_SECONDS = 120;
+
+// Each task is practised with feedback, then scored for a fixed time without it.
+// Practice and scored blocks use different seeds so practice doesn't preview the scored items.
+export const ASSESSMENT_STEPS: AssessmentStep[] = [
+  { gameType: 'symbol-match', practice: true, timeLimit: 'endless', trialLimit: PRACTICE_TRIALS, seed: 0x1d4e8a27 },
+  { gameType: 'symbol-match', practice: false, timeLimit: SCORED_SECONDS, trialLimit: null, seed: 0x6b93f015 },
+  { gameType: 'coding', practice: true, timeLimit: 'endless', trialLimit: PRACTICE_TRIALS, seed: 0x3c7a52e9 },
+  { gameType: 'coding', practice: false, timeLimit: SCORED_SECONDS, trialLimit: null, seed: 0xa2e0c64b },
+];
+
+// Fixed task settings: the default layout for 記号探し and the paper-test style for 符号
+export const ASSESSMENT_SYMBOL_MATCH = { targets: 2, searchSize: 5 };
+export const ASSESSMENT_CODING_SYMBOLS = 9;
+
+// Benchmark forms (BENCHMARK_FORMS in random.ts) fix the task settings as well as
+// the seed, so everyone on a form plays the same items for the same time.
+// Never change these: past benchmark results would stop being comparable.
+export const BENCHMARK_SETTINGS = {
+  timeLimit: 60 as TimeLimit,
+  codingMode: 'classic' as CodingMode,
+  codingCount: ASSESSMENT_CODING_SYMBOLS,
+  matchStart: ASSESSMENT_SYMBOL_MATCH,
+  distractors: 'random' as DistractorLevel,
+  layout: 'structured' as CancellationLayout,
+  reactionMode: 'simple' as ReactionMode,
+};
+
+// Progress through the protocol; only the scored blocks are kept
+export type AssessmentRun = {
+  step: number;
+  blocks: StatEntry[];
+};
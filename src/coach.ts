@@ -0,0 +1,109 @@
+import { accuracyOf } from './analytics';
+import { GAMES, configKey, isBenchmark, isWarmUp } from './config';
+import { dayNumber } from './goals';
+import { programProgress } from './program';
+import type { GameType, StatEntry } from './types';
+
+// One trainee's history as seen by a coach, from the sync server or an export file
+export type Trainee = {
+  id: string;
+  name: string;
+  stats: StatEntry[];
+};
+
+export type GameSummary = {
+  gameType: Exclude<GameType, null>;
+  sessions: number;
+  latest: number; // PSI of the most recent session
+  trend: number | null; // mean of the last TREND_WINDOW sessions minus the window before
+};
+
+export type Anomaly = {
+  kind: 'drop' | 'low-accuracy';
+  session: StatEntry;
+  detail: string;
+};
+
+export type TraineeSummary = {
+  trainee: Trainee;
+  lastSession: number | null;
+  games: GameSummary[];
+  adherence: number | null; // %
+  adherenceSource: 'program' | 'active-days';
+  anomalies: Anomaly[];
+};
+
+const TREND_WINDOW = 5;
+// One population SD below the trainee's recent level under the same configuration
+const DROP_THRESHOLD = 15;
+const LOW_ACCURACY = 60;
+// Too few responses make accuracy meaningless
+const MIN_RESPONSES = 10;
+export const ADHERENCE_DAYS = 14;
+// Only recent anomalies are flagged in the overview; the drill-down lists them all
+const RECENT_DAYS = 14;
+
+const mean = (values: number[]) => values.reduce((a, v) => a + v, 0) / values.length;
+
+// Sessions well below the mean of the previous few under the same configuration,
+// so switching to a harder setting isn't mistaken for a drop
+export const findAnomalies = (stats: StatEntry[]): Anomaly[] => {
+  const history = new Map<string, number[]>();
+  const anomalies: Anomaly[] = [];
+  [...stats].sort((a, b) => a.date - b.date).forEach(s => {
+    if (s.score + s.mistakes >= MIN_RESPONSES && accuracyOf(s) < LOW_ACCURACY) {
+      anomalies.push({ kind: 'low-accuracy', session: s, detail: `正答率 ${Math.round(accuracyOf(s))}%` });
+    }
+    if (isWarmUp(s.gameType)) return;
+    const key = configKey(s);
+    const previous = history.get(key) ?? [];
+    if (previous.length >= 3) {
+      const baseline = mean(previous.slice(-TREND_WINDOW));
+      if (baseline - s.psi >= DROP_THRESHOLD) {
+        anomalies.push({ kind: 'drop', session: s, detail: `PSI ${s.psi}（直前の平均 ${Math.round(baseline)}）` });
+      }
+    }
+    history.set(key, [...previous, s.psi]);
+  });
+  return anomalies;
+};
+
+const summarizeGame = (stats: StatEntry[], gameType: Exclude<GameType, null>): GameSummary | null => {
+  const games = stats.filter(s => s.gameType === gameType && !isBenchmark(s));
+  if (games.length === 0) return null;
+  const recent = games.slice(-TREND_WINDOW);
+  const before = games.slice(-2 * TREND_WINDOW, -TREND_WINDOW);
+  return {
+    gameType,
+    sessions: games.length,
+    latest: games[games.length - 1].psi,
+    trend: before.length > 0 ? Math.round(mean(recent.map(s => s.psi)) - mean(before.map(s => s.psi))) : null,
+  };
+};
+
+// Trainees on a program are measured against its schedule, recovered from the
+// tags on their sessions; everyone else by the share of recent days they trained.
+const adherenceOf = (stats: StatEntry[], now: Date): Pick<TraineeSummary, 'adherence' | 'adherenceSource'> => {
+  const tagged = stats.filter(s => s.program).sort((a, b) => a.date - b.date);
+  const latest = tagged[tagged.length - 1]?.program;
+  if (latest) {
+    const progress = programProgress({ programId: latest.id, start: latest.start, reminder: null }, stats, now);
+    if (progress) return { adherence: progress.adherence, adherenceSource: 'program' };
+  }
+  if (stats.length === 0) return { adherence: null, adherenceSource: 'active-days' };
+  const today = dayNumber(now.getTime());
+  const active = new Set(stats.map(s => dayNumber(s.date)).filter(d => d > today - ADHERENCE_DAYS && d <= today));
+  return { adherence: Math.round(active.size / ADHERENCE_DAYS * 100), adherenceSource: 'active-days' };
+};
+
+export const summarizeTrainee = (trainee: Trainee, now: Date): TraineeSummary => {
+  const stats = [...trainee.stats].sort((a, b) => a.date - b.date);
+  const since = now.getTime() - RECENT_DAYS * 86400000;
+  return {
+    trainee,
+    lastSession: stats.length > 0 ? stats[stats.length - 1].date : null,
+    games: GAMES.filter(g => !isWarmUp(g)).map(g => summarizeGame(stats, g)).filter((g): g is GameSummary => g !== null),
+    ...adherenceOf(stats, now),
+    anomalies: findAnomalies(stats).filter(a => a.session.date >= since),
+  };
+};
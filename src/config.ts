@@ -0,0 +1,98 @@
+import type { CancellationLayout, CodingMode, DistractorLevel, GameType, InputMethod, ReactionMode, SessionConfig, StatEntry, Trial } from './types';
+
+export const DEFAULT_SYMBOL_SET_ID = 'default';
+
+export const GAMES = ['symbol-match', 'coding', 'cancellation', 'reaction'] as const;
+
+export const GAME_LABELS: Record<Exclude<GameType, null>, string> = {
+  'symbol-match': '記号探し',
+  coding: '符号',
+  cancellation: '抹消',
+  reaction: '反応',
+};
+
+// Warm-up tasks measure raw speed and aren't scored against norms
+export const isWarmUp = (gameType: GameType) => gameType === 'reaction';
+
+// Benchmark forms are periodic standardised checks; training averages, trends,
+// goals and achievements leave them out so the two can be compared
+export const isBenchmark = (entry: Pick<StatEntry, 'config'>) => !!entry.config?.benchmark;
+
+export const CODING_MODE_LABELS: Record<CodingMode, string> = {
+  reshuffle: '再配置',
+  classic: 'クラシック',
+};
+
+export const DISTRACTOR_LABELS: Record<DistractorLevel, string> = {
+  random: 'ランダム',
+  similar: '類似',
+  confusable: '紛らわしい',
+};
+
+export const REACTION_MODE_LABELS: Record<ReactionMode, string> = {
+  simple: '単純',
+  choice2: '2択',
+  choice4: '4択',
+  'go-nogo': 'Go/No-Go',
+};
+
+export const LAYOUT_LABELS: Record<CancellationLayout, string> = {
+  structured: '整列',
+  random: 'ランダム',
+};
+
+// Sessions recorded before configuration was stored
+export const UNKNOWN_CONFIG: SessionConfig = {
+  symbolCount: null,
+  searchSize: null,
+  targetCount: null,
+  adaptive: false,
+  appVersion: 'unknown',
+  inputMethod: 'unknown',
+};
+
+export const withConfig = (entry: StatEntry): StatEntry =>
+  entry.config ? entry : { ...entry, config: UNKNOWN_CONFIG };
+
+// Most frequent input method across the session's trials
+export const dominantInput = (trials: Trial[]): InputMethod => {
+  const counts = new Map<InputMethod, number>();
+  trials.forEach(t => { if (t.input) counts.set(t.input, (counts.get(t.input) ?? 0) + 1); });
+  let best: InputMethod = 'unknown';
+  counts.forEach((n, method) => { if (n > (counts.get(best) ?? 0)) best = method; });
+  return best;
+};
+
+const INPUT_LABELS: Record<InputMethod, string> = {
+  mouse: 'マウス',
+  touch: 'タッチ',
+  pen: 'ペン',
+  keyboard: 'キーボード',
+  unknown: '入力不明',
+};
+
+// App version is deliberately left out so upgrades don't split trends.
+// Sessions from before symbol sets or distractor levels existed used the defaults.
+export const configKey = (entry: StatEntry) => {
+  const c = entry.config ?? UNKNOWN_CONFIG;
+  if (c.appVersion === 'unknown') return `${entry.gameType}|unknown`;
+  const symbolSet = c.symbolSet === DEFAULT_SYMBOL_SET_ID ? null : c.symbolSet;
+  const distractors = c.distractors === 'random' ? null : c.distractors;
+  return [entry.gameType, symbolSet, c.symbolCount, c.codingMode, c.searchSize, c.targetCount, distractors, c.layout, c.reactionMode, c.benchmark, c.adaptive, c.inputMethod].join('|');
+};
+
+export const configLabel = (entry: StatEntry, setName: (id: string) => string = id => id) => {
+  const c = entry.config ?? UNKNOWN_CONFIG;
+  const game = entry.gameType ? GAME_LABELS[entry.gameType] : '';
+  if (c.appVersion === 'unknown') return `${game} · 条件不明`;
+  const difficulty = entry.gameType === 'coding'
+    ? `${c.symbolCount}種${c.codingMode === 'classic' ? ` ${CODING_MODE_LABELS.classic}` : ''}`
+    : entry.gameType === 'cancellation'
+      ? LAYOUT_LABELS[c.layout ?? 'structured']
+      : entry.gameType === 'reaction'
+        ? REACTION_MODE_LABELS[c.reactionMode ?? 'simple']
+        : `${c.targetCount}/${c.searchSize}${c.distractors && c.distractors !== 'random' ? ` ${DISTRACTOR_LABELS[c.distractors]}` : ''}`;
+  const symbols = c.symbolSet && c.symbolSet !== DEFAULT_SYMBOL_SET_ID ? ` · ${setName(c.symbolSet)}` : '';
+  const benchmark = c.benchmark ? ` · ベンチマーク${c.benchmark}` : '';
+  return `${game} ${c.adaptive ? `適応(開始${difficulty})` : difficulty}${symbols}${benchmark} · ${INPUT_LABELS[c.inputMethod]}`;
+};
@@ -0,0 +1,53 @@
+import type { Random } from './random';
+import type { DistractorLevel } from './types';
+
+// What makes two symbols look alike. Symbols drawn from the same base
+// (rotated, mirrored or recoloured copies) are closer than mere family members.
+export type SymbolTraits = {
+  family: string;
+  base?: string;
+  rotation?: number; // degrees clockwise
+  mirrored?: boolean;
+  color?: string;
+};
+
+// 0 = unrelated, 1 = identical
+export const symbolSimilarity = (a: SymbolTraits, b: SymbolTraits) => {
+  if (a.base !== undefined && a.base === b.base) {
+    const quarterTurns = Math.abs(((a.rotation ?? 0) - (b.rotation ?? 0)) / 90) % 4;
+    return 1
+      - (a.mirrored !== b.mirrored ? 0.1 : 0)
+      - Math.min(quarterTurns, 4 - quarterTurns) * 0.1
+      - (a.color !== b.color ? 0.3 : 0);
+  }
+  return a.family === b.family ? 0.5 : 0;
+};
+
+export const similarityMatrix = (traits: SymbolTraits[]) =>
+  traits.map(a => traits.map(b => Math.round(symbolSimilarity(a, b) * 100) / 100));
+
+// How easily a search item could be mistaken for one of the targets
+export const targetSimilarity = (similarity: number[][], targets: number[], item: number) =>
+  Math.max(...targets.map(t => similarity[item][t]));
+
+// How strongly each level favours near-miss distractors. Candidates are
+// weighted by exp(bias * similarity), so random draws uniformly and
+// confusable almost always takes the closest symbols available.
+const DISTRACTOR_BIAS: Record<DistractorLevel, number> = {
+  random: 0,
+  similar: 3,
+  confusable: 10,
+};
+
+// Weighted sampling without replacement (Efraimidis-Spirakis): each
+// candidate gets the key u^(1/w) and the largest keys win.
+export const pickDistractors = (random: Random, similarity: number[][], targets: number[], count: number, level: DistractorLevel) => {
+  const bias = DISTRACTOR_BIAS[level];
+  return similarity
+    .map((_, i) => i)
+    .filter(i => !targets.includes(i))
+    .map(i => ({ i, key: random() ** (1 / Math.exp(bias * targetSimilarity(similarity, targets, i))) }))
+    .sort((a, b) => b.key - a.key)
+    .slice(0, count)
+    .map(c => c.i);
+};
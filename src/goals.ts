@@ -0,0 +1,91 @@
+import { accuracyOf } from './analytics';
+import { isBenchmark, isWarmUp } from './config';
+import type { StatEntry } from './types';
+import { isValidSession } from './validity';
+
+// null = no goal set
+export type Goals = {
+  targetPsi: number | null;
+  sessionsPerWeek: number | null;
+  accuracy: number | null; // %
+};
+
+export const DEFAULT_GOALS: Goals = { targetPsi: null, sessionsPerWeek: null, accuracy: null };
+
+export const GOAL_RANGES: Record<keyof Goals, [number, number]> = {
+  targetPsi: [70, 160],
+  sessionsPerWeek: [1, 28],
+  accuracy: [50, 100],
+};
+
+export const clampGoal = (key: keyof Goals, value: number) =>
+  Math.round(Math.max(GOAL_RANGES[key][0], Math.min(GOAL_RANGES[key][1], value)));
+
+export const parseGoals = (value: any): Goals => {
+  const goal = (key: keyof Goals) =>
+    typeof value?.[key] === 'number' && Number.isFinite(value[key]) ? clampGoal(key, value[key]) : null;
+  return { targetPsi: goal('targetPsi'), sessionsPerWeek: goal('sessionsPerWeek'), accuracy: goal('accuracy') };
+};
+
+// Days since the epoch on the local calendar, so streaks follow the user's midnight
+export const dayNumber = (time: number) => {
+  const d = new Date(time);
+  return Math.round(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / 86400000);
+};
+
+// Weeks start on Monday
+const weekStart = (now: Date) =>
+  new Date(now.getFullYear(), now.getMonth(), now.getDate() - (now.getDay() + 6) % 7).getTime();
+
+// PSI and accuracy goals are judged on a rolling window rather than a single lucky session
+export const GOAL_WINDOW = 5;
+
+export type GoalStatus = {
+  key: keyof Goals;
+  label: string;
+  current: number | null;
+  target: number;
+  unit: string;
+  met: boolean;
+};
+
+export const goalStatus = (goals: Goals, stats: StatEntry[], now: Date): GoalStatus[] => {
+  // Guessed sessions would meet goals they didn't earn
+  const training = stats.filter(s => !isBenchmark(s) && isValidSession(s));
+  const scored = training.filter(s => !isWarmUp(s.gameType)).slice(-GOAL_WINDOW);
+  const recent = training.slice(-GOAL_WINDOW);
+  const mean = (values: number[]) => values.length > 0 ? Math.round(values.reduce((a, v) => a + v, 0) / values.length) : null;
+  const status: GoalStatus[] = [];
+  if (goals.targetPsi !== null) {
+    const current = mean(scored.map(s => s.psi));
+    status.push({ key: 'targetPsi', label: `PSI（直近${GOAL_WINDOW}回の平均）`, current, target: goals.targetPsi, unit: '', met: current !== null && current >= goals.targetPsi });
+  }
+  if (goals.sessionsPerWeek !== null) {
+    const since = weekStart(now);
+    const current = training.filter(s => s.date >= since).length;
+    status.push({ key: 'sessionsPerWeek', label: '今週のセッション', current, target: goals.sessionsPerWeek, unit: '回', met: current >= goals.sessionsPerWeek });
+  }
+  if (goals.accuracy !== null) {
+    const current = mean(recent.map(accuracyOf));
+    status.push({ key: 'accuracy', label: `正答率（直近${GOAL_WINDOW}回の平均）`, current, target: goals.accuracy, unit: '%', met: current !== null && current >= goals.accuracy });
+  }
+  return status;
+};
+
+export type Streak = {
+  current: number; // days in a row with at least one session; a quiet today doesn't break it yet
+  longest: number;
+};
+
+export const practiceStreak = (stats: StatEntry[], now: Date): Streak => {
+  const days = [...new Set(stats.map(s => dayNumber(s.date)))].sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  days.forEach((d, i) => {
+    run = i > 0 && d === days[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  const today = dayNumber(now.getTime());
+  const last = days[days.length - 1];
+  return { current: last === today || last === today - 1 ? run : 0, longest };
+};
@@ -0,0 +1,41 @@
+// Key bindings use KeyboardEvent.code so they follow physical key positions
+// regardless of keyboard layout or an active IME.
+export type YesNoLayout = 'fj' | 'arrows';
+export type CodingLayout = 'number-row' | 'grid';
+
+export type KeyBindings = {
+  symbolMatch: YesNoLayout;
+  coding: CodingLayout;
+};
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = { symbolMatch: 'fj', coding: 'number-row' };
+
+export const YES_NO_KEYS: Record<YesNoLayout, { yes: string, no: string }> = {
+  fj: { yes: 'KeyF', no: 'KeyJ' },
+  arrows: { yes: 'ArrowLeft', no: 'ArrowRight' },
+};
+
+const NUMBER_ROW = ['Digit1', 'Digit2', 'Digit3', 'Digit4', 'Digit5', 'Digit6', 'Digit7', 'Digit8', 'Digit9', 'Digit0', 'KeyQ', 'KeyW', 'KeyE', 'KeyR', 'KeyT'];
+const GRID_ROWS = [
+  ['KeyQ', 'KeyW', 'KeyE', 'KeyR', 'KeyT', 'KeyY', 'KeyU', 'KeyI'],
+  ['KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG', 'KeyH', 'KeyJ', 'KeyK'],
+];
+
+// Key for the button at `position` in a grid of `columns` buttons per row
+export const codingKey = (layout: CodingLayout, position: number, columns: number): string | null => {
+  if (layout === 'number-row') return NUMBER_ROW[position] ?? null;
+  return GRID_ROWS[Math.floor(position / columns)]?.[position % columns] ?? null;
+};
+
+const ARROW_LABELS: Record<string, string> = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+
+export const keyLabel = (code: string) =>
+  ARROW_LABELS[code] ?? code.replace(/^Key|^Digit/, '');
+
+export const parseKeyBindings = (value: any): KeyBindings => ({
+  symbolMatch: value?.symbolMatch === 'fj' || value?.symbolMatch === 'arrows' ? value.symbolMatch : DEFAULT_KEY_BINDINGS.symbolMatch,
+  coding: value?.coding === 'grid' || value?.coding === 'number-row' ? value.coding : DEFAULT_KEY_BINDINGS.coding,
+});
+
+// Only show key hints where a physical keyboard is likely
+export const showKeyHints = () => window.matchMedia('(any-pointer: fine)').matches;
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_NORMS, compositePSI, lookupNorm, parseNormTable, rescoreStats, scorePSI } from './norms';
+import type { NormTable } from './norms';
+import type { StatEntry } from './types';
+
+const TABLE: NormTable = {
+  version: 'test-v1',
+  name: 'Test',
+  reliability: 0.8,
+  referenceLength: 120,
+  rows: [
+    { gameType: 'coding', difficulty: 5, mean: 30, sd: 10 },
+    { gameType: 'coding', difficulty: 9, mean: 20, sd: 5 },
+    { gameType: 'coding', difficulty: 5, ageBand: '60-79', mean: 20, sd: 10 },
+    { gameType: 'coding', variant: 'classic', difficulty: 5, mean: 40, sd: 10 },
+  ],
+};
+
+describe('scorePSI', () => {
+  it('scores the net rate per minute against the closest row', () => {
+    // 40 - 10 in 60s = 30/min, the row mean
+    expect(scorePSI(TABLE, 40, 10, 60, 'coding', 5).psi).toBe(100);
+    // 40/min is one SD above
+    expect(scorePSI(TABLE, 40, 0, 60, 'coding', 6).psi).toBe(115);
+    expect(scorePSI(TABLE, 25, 0, 60, 'coding', 8).psi).toBe(115);
+  });
+
+  it('uses age band and variant rows when they exist', () => {
+    expect(scorePSI(TABLE, 30, 0, 60, 'coding', 5, '60-79').psi).toBe(115);
+    expect(scorePSI(TABLE, 30, 0, 60, 'coding', 5, '20-39').psi).toBe(100);
+    expect(scorePSI(TABLE, 30, 0, 60, 'coding', 5, null, 'classic').psi).toBe(85);
+    // No rows for this variant: the standard task's rows apply
+    expect(lookupNorm(TABLE, 'coding', 5, 60, null, 'similar')?.mean).toBe(30);
+  });
+
+  it('widens the interval for shorter sessions (Spearman-Brown)', () => {
+    const full = scorePSI(TABLE, 60, 0, 120, 'coding', 5);
+    const half = scorePSI(TABLE, 30, 0, 60, 'coding', 5);
+    expect(full.psi).toBe(half.psi);
+    // reliability 0.8 at 120s and 2/3 at 60s
+    expect(full.ci).toEqual([87, 113]);
+    expect(half.ci).toEqual([83, 117]);
+  });
+
+  it('clamps extreme scores and refuses sessions that are too short or have no norms', () => {
+    expect(scorePSI(TABLE, 500, 0, 60, 'coding', 5).psi).toBe(160);
+    expect(scorePSI(TABLE, 0, 30, 60, 'coding', 5).psi).toBe(55);
+    expect(scorePSI(TABLE, 10, 0, 5, 'coding', 5)).toEqual({ psi: 0, ci: [0, 0], normVersion: 'test-v1' });
+    expect(scorePSI(TABLE, 10, 0, 60, 'symbol-match', 5).psi).toBe(0);
+  });
+});
+
+describe('compositePSI', () => {
+  it('spreads the sum of subtest scores for their correlation and is more precise than one subtest', () => {
+    const subtests = [{ psi: 115, elapsed: 120 }, { psi: 115, elapsed: 120 }];
+    const composite = compositePSI(TABLE, subtests);
+    // z = 2 / sqrt(2 + 2 * 0.6)
+    expect(composite.psi).toBe(117);
+    expect(composite.ci[1] - composite.ci[0]).toBeLessThan(26);
+  });
+});
+
+describe('rescoreStats', () => {
+  it('rescores against the new table and leaves warm-ups alone', () => {
+    const coding = { id: '1', date: 1, gameType: 'coding', psi: 0, score: 40, mistakes: 0, elapsed: 60, config: { symbolCount: 5, searchSize: null, targetCount: null, adaptive: false, appVersion: '1', inputMethod: 'touch' } } as StatEntry;
+    const reaction = { ...coding, id: '2', gameType: 'reaction', psi: 0 } as StatEntry;
+    const [rescored, warmUp] = rescoreStats([coding, reaction], TABLE);
+    expect(rescored).toMatchObject({ psi: 115, normVersion: 'test-v1' });
+    expect(warmUp).toBe(reaction);
+  });
+});
+
+describe('parseNormTable', () => {
+  it('reads a valid table and falls back to the default reliability', () => {
+    const table = parseNormTable(JSON.stringify({ version: 'clinic', rows: [{ gameType: 'coding', mean: 30, sd: 8 }], reliability: 2 }));
+    expect(table).toMatchObject({ version: 'clinic', name: 'clinic', reliability: DEFAULT_NORMS.reliability, referenceLength: 120 });
+  });
+
+  it('rejects tables without a version, rows or a positive sd', () => {
+    expect(() => parseNormTable('{"rows":[{"gameType":"coding","mean":1,"sd":1}]}')).toThrow(/version/);
+    expect(() => parseNormTable('{"version":"x","rows":[]}')).toThrow(/row/);
+    expect(() => parseNormTable('{"version":"x","rows":[{"gameType":"coding","mean":1,"sd":0}]}')).toThrow(/sd/);
+    expect(() => parseNormTable('{"version":"x","rows":[{"gameType":"chess","mean":1,"sd":1}]}')).toThrow(/gameType/);
+  });
+});
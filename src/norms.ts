@@ -0,0 +1,246 @@
+import { GAMES, isWarmUp } from './config';
+import type { Assessment, CancellationLayout, GameType, SessionConfig, StatEntry, Trial } from './types';
+
+// A norm table maps a session's condition to the mean/SD of the net score
+// rate (correct - mistakes per minute) in the reference population.
+//
+// Custom tables are plain JSON of the same shape:
+// {
+//   "version": "clinic-2026-04",
+//   "name": "Clinic sample",
+//   "reliability": 0.85,          // at referenceLength seconds
+//   "referenceLength": 120,
+//   "rows": [
+//     { "gameType": "coding", "difficulty": 5, "sessionLength": 60, "ageBand": "20-39", "mean": 30, "sd": 8 },
+//     { "gameType": "coding", "variant": "classic", "difficulty": 5, "mean": 42, "sd": 9 }
+//   ]
+// }
+// `variant`, `difficulty`, `sessionLength` and `ageBand` are optional; the closest row wins.
+// Rows without a variant are for the standard task and also cover variants the table has no rows for.
+export type NormRow = {
+  gameType: Exclude<GameType, null>;
+  variant?: string;       // 'classic' for fixed-key coding, 'similar' or 'confusable' for 記号探し distractors
+  difficulty?: number;    // symbol count (coding), search group size (symbol-match) or layout (cancellation: 0 structured, 1 random)
+  sessionLength?: number; // seconds
+  ageBand?: string;
+  mean: number;
+  sd: number;
+};
+
+export type NormTable = {
+  version: string;
+  name: string;
+  reliability: number;
+  referenceLength: number;
+  rows: NormRow[];
+};
+
+export type PsiScore = {
+  psi: number;
+  ci: [number, number];
+  normVersion: string;
+};
+
+const PSI_MIN = 40;
+const PSI_MAX = 160;
+const MIN_SCORABLE_SECONDS = 10;
+// Correlation between 記号探し and 符号 scores in the reference population
+const SUBTEST_CORRELATION = 0.6;
+
+// Net rate per minute at each difficulty for a 60s session
+const CODING_MEANS: Record<number, number> = {
+  3: 38, 4: 34, 5: 30, 6: 27, 7: 25, 8: 23, 9: 21, 10: 19.5, 11: 18, 12: 17, 13: 16, 14: 15, 15: 14,
+};
+const SYMBOL_MATCH_MEANS: Record<number, number> = {
+  3: 55, 4: 50, 5: 45, 6: 41, 7: 38, 8: 35, 10: 30,
+};
+// With a fixed key the mapping is soon memorised, so classic coding runs faster
+const CLASSIC_CODING_MEANS: Record<number, number> = {
+  3: 50, 4: 46, 5: 42, 6: 39, 7: 36, 8: 34, 9: 32, 10: 30, 11: 29, 12: 28, 13: 27, 14: 26, 15: 25,
+};
+// Scanning an unaligned page costs more eye movements than reading rows
+const CANCELLATION_MEANS: Record<number, number> = { 0: 40, 1: 34 };
+// Short sessions run slightly faster, long ones show fatigue
+const LENGTH_FACTORS: Record<number, number> = { 30: 1.05, 60: 1, 120: 0.95 };
+
+const buildRows = (gameType: NormRow['gameType'], means: Record<number, number>, sdRatio: number, variant?: string): NormRow[] =>
+  Object.entries(means).flatMap(([difficulty, mean]) =>
+    Object.entries(LENGTH_FACTORS).map(([length, factor]) => ({
+      gameType,
+      ...(variant ? { variant } : {}),
+      difficulty: Number(difficulty),
+      sessionLength: Number(length),
+      mean: Math.round(mean * factor * 10) / 10,
+      sd: Math.round(mean * factor * sdRatio * 10) / 10,
+    })));
+
+export const DEFAULT_NORMS: NormTable = {
+  version: 'default-v2',
+  name: '標準ノルム',
+  reliability: 0.85,
+  referenceLength: 120,
+  rows: [
+    ...buildRows('symbol-match', SYMBOL_MATCH_MEANS, 12 / 45),
+    ...buildRows('coding', CODING_MEANS, 8 / 30),
+    ...buildRows('coding', CLASSIC_CODING_MEANS, 9 / 42, 'classic'),
+    ...buildRows('cancellation', CANCELLATION_MEANS, 10 / 40),
+  ],
+};
+
+// Sessions scored before norm tables existed used this fixed mean/SD
+export const LEGACY_NORM_VERSION = 'legacy-v1';
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+export const parseNormTable = (json: string): NormTable => {
+  const data = JSON.parse(json);
+  if (!data || typeof data !== 'object') throw new Error('Norm table must be a JSON object');
+  if (typeof data.version !== 'string' || data.version === '') throw new Error('Norm table needs a version string');
+  if (!Array.isArray(data.rows) || data.rows.length === 0) throw new Error('Norm table needs at least one row');
+
+  const rows: NormRow[] = data.rows.map((r: any, i: number) => {
+    if (!GAMES.includes(r.gameType)) throw new Error(`Row ${i}: unknown gameType`);
+    if (!isFiniteNumber(r.mean) || !isFiniteNumber(r.sd) || r.sd <= 0) throw new Error(`Row ${i}: mean and a positive sd are required`);
+    return {
+      gameType: r.gameType,
+      variant: typeof r.variant === 'string' && r.variant !== '' ? r.variant : undefined,
+      difficulty: isFiniteNumber(r.difficulty) ? r.difficulty : undefined,
+      sessionLength: isFiniteNumber(r.sessionLength) ? r.sessionLength : undefined,
+      ageBand: typeof r.ageBand === 'string' ? r.ageBand : undefined,
+      mean: r.mean,
+      sd: r.sd,
+    };
+  });
+
+  const reliability = isFiniteNumber(data.reliability) && data.reliability > 0 && data.reliability < 1
+    ? data.reliability
+    : DEFAULT_NORMS.reliability;
+
+  return {
+    version: data.version,
+    name: typeof data.name === 'string' ? data.name : data.version,
+    reliability,
+    referenceLength: isFiniteNumber(data.referenceLength) && data.referenceLength > 0 ? data.referenceLength : DEFAULT_NORMS.referenceLength,
+    rows,
+  };
+};
+
+export const ageBands = (table: NormTable) =>
+  [...new Set(table.rows.map(r => r.ageBand).filter((b): b is string => !!b))];
+
+export const lookupNorm = (
+  table: NormTable,
+  gameType: GameType,
+  difficulty: number,
+  sessionLength: number,
+  ageBand?: string | null,
+  variant?: string,
+): NormRow | null => {
+  const allForGame = table.rows.filter(r => r.gameType === gameType);
+  const forVariant = allForGame.filter(r => r.variant === variant);
+  const forGame = forVariant.length > 0 ? forVariant : allForGame.filter(r => !r.variant);
+  const forAge = forGame.filter(r => ageBand && r.ageBand === ageBand);
+  const candidates = forAge.length > 0 ? forAge : forGame.filter(r => !r.ageBand);
+  const pool = candidates.length > 0 ? candidates : forGame;
+  if (pool.length === 0) return null;
+
+  const distance = (r: NormRow) => [
+    r.difficulty === undefined ? 0 : Math.abs(r.difficulty - difficulty),
+    r.sessionLength === undefined ? 0 : Math.abs(r.sessionLength - sessionLength),
+  ];
+  return [...pool].sort((a, b) => {
+    const [da, la] = distance(a);
+    const [db, lb] = distance(b);
+    return da - db || la - lb;
+  })[0];
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Norm variant of a session's task; undefined for the standard task.
+// The built-in table has no distractor rows, so those fall back to the standard ones.
+export const normVariant = (gameType: GameType, config?: Pick<SessionConfig, 'codingMode' | 'distractors'> | null) => {
+  if (gameType === 'coding' && config?.codingMode === 'classic') return 'classic';
+  if (gameType === 'symbol-match' && config?.distractors && config.distractors !== 'random') return config.distractors;
+  return undefined;
+};
+
+export const layoutDifficulty = (layout: CancellationLayout) => layout === 'random' ? 1 : 0;
+
+const trialDifficulty = (t: Trial) => {
+  switch (t.gameType) {
+    case 'coding': return t.mapping.length;
+    case 'symbol-match': return t.searchGroup.length;
+    case 'cancellation': return layoutDifficulty(t.layout);
+    case 'reaction': return 0;
+  }
+};
+
+// Typical difficulty of a session. Adaptive sessions vary trial by trial,
+// so the median trial is used; entries without trials use the fallback.
+export const sessionDifficulty = (entry: Pick<StatEntry, 'trials'>, fallback = 5) =>
+  entry.trials && entry.trials.length > 0 ? median(entry.trials.map(trialDifficulty)) : fallback;
+
+const clampPsi = (psi: number) => Math.max(PSI_MIN, Math.min(PSI_MAX, Math.round(psi)));
+
+// Spearman-Brown: shorter sessions are proportionally less reliable
+const reliabilityAt = (table: NormTable, elapsedSeconds: number) => {
+  const k = elapsedSeconds / table.referenceLength;
+  return (k * table.reliability) / (1 + (k - 1) * table.reliability);
+};
+
+const confidenceInterval = (psi: number, reliability: number): [number, number] => {
+  const margin = Math.round(1.96 * 15 * Math.sqrt(1 - reliability));
+  return [Math.max(PSI_MIN, psi - margin), Math.min(PSI_MAX, psi + margin)];
+};
+
+export const scorePSI = (
+  table: NormTable,
+  score: number,
+  mistakes: number,
+  elapsedSeconds: number,
+  gameType: GameType,
+  difficulty: number,
+  ageBand?: string | null,
+  variant?: string,
+): PsiScore => {
+  const norm = lookupNorm(table, gameType, difficulty, elapsedSeconds, ageBand, variant);
+  if (elapsedSeconds < MIN_SCORABLE_SECONDS || !norm) {
+    return { psi: 0, ci: [0, 0], normVersion: table.version };
+  }
+  const rawScore = Math.max(0, score - mistakes);
+  const ratePerMinute = (rawScore / elapsedSeconds) * 60;
+  const psi = clampPsi(100 + ((ratePerMinute - norm.mean) / norm.sd) * 15);
+  return { psi, ci: confidenceInterval(psi, reliabilityAt(table, elapsedSeconds)), normVersion: table.version };
+};
+
+// Composite of the subtest scores: the sum of their z-scores, restandardised
+// for the subtest correlation. Its reliability follows Mosier's formula, so
+// the composite is more precise than either subtest alone.
+export const compositePSI = (table: NormTable, subtests: Pick<StatEntry, 'psi' | 'elapsed'>[]): PsiScore => {
+  const n = subtests.length;
+  const variance = n + n * (n - 1) * SUBTEST_CORRELATION;
+  const z = subtests.reduce((a, s) => a + (s.psi - 100) / 15, 0) / Math.sqrt(variance);
+  const errorVariance = subtests.reduce((a, s) => a + 1 - reliabilityAt(table, s.elapsed), 0);
+  const psi = clampPsi(100 + z * 15);
+  return { psi, ci: confidenceInterval(psi, 1 - errorVariance / variance), normVersion: table.version };
+};
+
+export const rescoreStats = (stats: StatEntry[], table: NormTable, ageBand?: string | null): StatEntry[] =>
+  stats.map(s => {
+    if (isWarmUp(s.gameType)) return s;
+    const fallback = s.config?.layout ? layoutDifficulty(s.config.layout) : s.config?.symbolCount ?? s.config?.searchSize ?? 5;
+    const variant = normVariant(s.gameType, s.config);
+    const { psi, ci, normVersion } = scorePSI(table, s.score, s.mistakes, s.elapsed, s.gameType, sessionDifficulty(s, fallback), ageBand, variant);
+    return { ...s, psi, psiCi: ci, normVersion };
+  });
+
+export const rescoreAssessments = (assessments: Assessment[], table: NormTable, ageBand?: string | null): Assessment[] =>
+  assessments.map(a => {
+    const subtests = rescoreStats(a.subtests, table, ageBand);
+    const { psi, ci, normVersion } = compositePSI(table, subtests);
+    return { ...a, psi, psiCi: ci, normVersion, subtests };
+  });
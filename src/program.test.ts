@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { findProgram, localDate, parseEnrollment, programDayIndex, programProgress, programSessions, reminderTimes } from './program';
+import type { ProgramEnrollment } from './program';
+import type { StatEntry } from './types';
+
+// intro-2w: 14 days, 5 sessions a day
+const ENROLLMENT: ProgramEnrollment = { programId: 'intro-2w', start: '2026-03-02', reminder: '19:30' };
+
+const at = (day: number, hour = 12) => new Date(2026, 2, 2 + day, hour);
+
+const done = (day: number, slot: number, enrollment = ENROLLMENT) => ({
+  id: `${day}-${slot}`, date: at(day).getTime(), gameType: 'coding', psi: 100, score: 20, mistakes: 1, elapsed: 60,
+  program: { id: enrollment.programId, start: enrollment.start, day, slot },
+}) as StatEntry;
+
+const fullDay = (day: number) => [0, 1, 2, 3, 4].map(slot => done(day, slot));
+
+describe('programDayIndex', () => {
+  it('counts local calendar days from the start', () => {
+    expect(programDayIndex(ENROLLMENT, at(0, 0))).toBe(0);
+    expect(programDayIndex(ENROLLMENT, at(1, 0))).toBe(1);
+    expect(programDayIndex(ENROLLMENT, at(30, 23))).toBe(30);
+    expect(localDate(at(0))).toBe('2026-03-02');
+  });
+});
+
+describe('programSessions', () => {
+  it('alternates tasks, starts each day on the next one and gets harder by the last week', () => {
+    const program = findProgram('intro-2w')!;
+    const first = programSessions(program, 0);
+    expect(first.map(s => s.gameType)).toEqual(['symbol-match', 'coding', 'cancellation', 'symbol-match', 'coding']);
+    expect(programSessions(program, 1)[0].gameType).toBe('coding');
+    const last = programSessions(program, 13);
+    expect(last[0].symbolCount).toBeGreaterThan(first[0].symbolCount);
+    expect(last[0].matchLevel).toBeGreaterThan(first[0].matchLevel);
+  });
+});
+
+describe('programProgress', () => {
+  it('tracks today’s slots, streak and adherence', () => {
+    const stats = [...fullDay(0), ...fullDay(1), done(2, 0), done(2, 3)];
+    const progress = programProgress(ENROLLMENT, stats, at(2))!;
+    expect(progress.day).toBe(2);
+    expect(progress.done).toEqual([true, false, false, true, false]);
+    expect(progress.nextSlot).toBe(1);
+    // An unfinished today doesn't break the streak yet
+    expect(progress.streak).toBe(2);
+    expect(progress.adherence).toBe(100);
+  });
+
+  it('counts a slot once however often it was played, and ignores other enrollments', () => {
+    const other = { ...ENROLLMENT, start: '2026-01-01' };
+    const stats = [done(0, 0), { ...done(0, 0), id: 'again' }, done(0, 1, other)];
+    const progress = programProgress(ENROLLMENT, stats, at(1))!;
+    // Day 0: 1 of 5 done; today has nothing yet
+    expect(progress.adherence).toBe(20);
+    expect(progress.streak).toBe(0);
+  });
+
+  it('finishes after the last day', () => {
+    const progress = programProgress(ENROLLMENT, [], at(14))!;
+    expect(progress).toMatchObject({ finished: true, today: [], nextSlot: null });
+  });
+});
+
+describe('reminderTimes', () => {
+  it('skips days whose menu is already done and times already past', () => {
+    const times = reminderTimes(ENROLLMENT, fullDay(1), at(0, 20));
+    expect(times[0]).toEqual(new Date(2026, 2, 4, 19, 30));
+    expect(times).toHaveLength(12);
+  });
+});
+
+describe('parseEnrollment', () => {
+  it('drops unknown programs and malformed dates or times', () => {
+    expect(parseEnrollment(ENROLLMENT)).toEqual(ENROLLMENT);
+    expect(parseEnrollment({ ...ENROLLMENT, reminder: '7pm' })).toEqual({ ...ENROLLMENT, reminder: null });
+    expect(parseEnrollment({ ...ENROLLMENT, programId: 'nope' })).toBeNull();
+    expect(parseEnrollment({ ...ENROLLMENT, start: '2026-3-2' })).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import { SYMBOL_MATCH_LEVELS } from './adaptive';
+import type { CancellationLayout, StatEntry } from './types';
+
+// One block of a day's menu, with the difficulty it is played at
+export type ProgramSession = {
+  gameType: 'symbol-match' | 'coding' | 'cancellation';
+  timeLimit: 60 | 120;
+  matchLevel: number; // 記号探し level, see SYMBOL_MATCH_LEVELS
+  symbolCount: number; // 符号
+  layout: CancellationLayout; // 抹消
+};
+
+export type TrainingProgram = {
+  id: string;
+  name: string;
+  description: string;
+  weeks: number;
+  sessionsPerDay: number;
+  sessionSeconds: 60 | 120;
+};
+
+export const PROGRAMS: TrainingProgram[] = [
+  { id: 'intro-2w', name: '2週間・1日5分', description: 'まずは習慣づけから。短いセッションで3つの課題を一通り体験します。', weeks: 2, sessionsPerDay: 5, sessionSeconds: 60 },
+  { id: 'standard-4w', name: '4週間・1日10分', description: '課題を交互に行い、週ごとに難易度が上がる標準プログラムです。', weeks: 4, sessionsPerDay: 5, sessionSeconds: 120 },
+  { id: 'extended-8w', name: '8週間・1日10分', description: '難易度をゆっくり上げながら、長期的な変化を追います。', weeks: 8, sessionsPerDay: 5, sessionSeconds: 120 },
+];
+
+export const findProgram = (id: string | null | undefined) => PROGRAMS.find(p => p.id === id) ?? null;
+
+export const programDays = (program: TrainingProgram) => program.weeks * 7;
+
+// Who is following which program since when. Days are local calendar dates,
+// so a session played just after midnight counts towards the new day.
+export type ProgramEnrollment = {
+  programId: string;
+  start: string; // YYYY-MM-DD of day 1
+  reminder: string | null; // HH:MM, local time
+};
+
+export const localDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseLocalDate = (text: string) => {
+  const [y, m, d] = text.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// 0 on the start date; rounding absorbs the hour lost or gained at DST changes
+export const programDayIndex = (enrollment: ProgramEnrollment, now: Date) =>
+  Math.round((parseLocalDate(localDate(now)).getTime() - parseLocalDate(enrollment.start).getTime()) / 86400000);
+
+const TASKS: ProgramSession['gameType'][] = ['symbol-match', 'coding', 'cancellation'];
+
+// Difficulty rises week by week from the easy end of each ladder to the hard
+// end; tasks alternate within a day and each day starts on the next task.
+export const programSessions = (program: TrainingProgram, day: number): ProgramSession[] => {
+  const week = Math.floor(day / 7);
+  const progress = program.weeks > 1 ? week / (program.weeks - 1) : 0;
+  return Array.from({ length: program.sessionsPerDay }, (_, slot) => ({
+    gameType: TASKS[(day + slot) % TASKS.length],
+    timeLimit: program.sessionSeconds,
+    matchLevel: 2 + Math.round(progress * (SYMBOL_MATCH_LEVELS.length - 3)),
+    symbolCount: 4 + Math.round(progress * 5),
+    layout: progress >= 0.5 ? 'random' : 'structured',
+  }));
+};
+
+// Slots of `day` that have a finished session recorded for this enrollment
+const completedSlots = (stats: StatEntry[], enrollment: ProgramEnrollment, day: number) =>
+  new Set(stats
+    .filter(s => s.program?.id === enrollment.programId && s.program.start === enrollment.start && s.program.day === day)
+    .map(s => s.program!.slot));
+
+export type ProgramProgress = {
+  program: TrainingProgram;
+  day: number; // 0-based; >= programDays when the program is over
+  totalDays: number;
+  finished: boolean;
+  today: ProgramSession[];
+  done: boolean[]; // per slot of today
+  nextSlot: number | null;
+  streak: number; // consecutive days with the full menu done
+  adherence: number | null; // % of sessions due so far that were done on their day
+};
+
+export const programProgress = (enrollment: ProgramEnrollment, stats: StatEntry[], now: Date): ProgramProgress | null => {
+  const program = findProgram(enrollment.programId);
+  if (!program) return null;
+  const totalDays = programDays(program);
+  const day = Math.max(0, programDayIndex(enrollment, now));
+  const finished = day >= totalDays;
+  const today = finished ? [] : programSessions(program, day);
+  const todayDone = completedSlots(stats, enrollment, day);
+  const done = today.map((_, slot) => todayDone.has(slot));
+  const nextSlot = done.indexOf(false);
+
+  const completeDay = (d: number) => completedSlots(stats, enrollment, d).size >= program.sessionsPerDay;
+  // An unfinished today doesn't break the streak yet
+  let streak = 0;
+  for (let d = Math.min(day, totalDays) - (finished || !completeDay(day) ? 1 : 0); d >= 0 && completeDay(d); d--) streak++;
+
+  // Today only counts once something has been done, so the rate doesn't dip every morning
+  const pastDays = Math.min(day, totalDays);
+  let completed = todayDone.size;
+  for (let d = 0; d < pastDays; d++) completed += completedSlots(stats, enrollment, d).size;
+  const due = pastDays * program.sessionsPerDay + todayDone.size;
+
+  return {
+    program,
+    day,
+    totalDays,
+    finished,
+    today,
+    done,
+    nextSlot: nextSlot >= 0 ? nextSlot : null,
+    streak,
+    adherence: due > 0 ? Math.round(completed / due * 100) : null,
+  };
+};
+
+// Reminder times for the rest of the program, skipping days whose menu is already done
+export const reminderTimes = (enrollment: ProgramEnrollment, stats: StatEntry[], now: Date): Date[] => {
+  const program = findProgram(enrollment.programId);
+  if (!program || !enrollment.reminder) return [];
+  const [hour, minute] = enrollment.reminder.split(':').map(Number);
+  const start = parseLocalDate(enrollment.start);
+  const times: Date[] = [];
+  for (let d = Math.max(0, programDayIndex(enrollment, now)); d < programDays(program); d++) {
+    const at = new Date(start.getFullYear(), start.getMonth(), start.getDate() + d, hour, minute);
+    if (at > now && completedSlots(stats, enrollment, d).size < program.sessionsPerDay) times.push(at);
+  }
+  return times;
+};
+
+export const parseEnrollment = (value: any): ProgramEnrollment | null =>
+  value && typeof value === 'object'
+    && findProgram(value.programId)
+    && typeof value.start === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.start)
+    ? { programId: value.programId, start: value.start, reminder: typeof value.reminder === 'string' && /^\d{2}:\d{2}$/.test(value.reminder) ? value.reminder : null }
+    : null;
@@ -0,0 +1,66 @@
+import { Capacitor } from '@capacitor/core';
+
+// Registers the service worker built by vite.config.ts and reports when a new
+// deployment has been downloaded and is waiting to take over.
+
+type Listener = (apply: () => void) => void;
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+const listeners = new Set<Listener>();
+let waiting: ServiceWorker | null = null;
+// Set once the user accepts an update; the first install also claims the page
+// but must not reload it
+let applying = false;
+
+const apply = () => {
+  applying = true;
+  waiting?.postMessage('skip-waiting');
+};
+
+const notify = (worker: ServiceWorker) => {
+  waiting = worker;
+  listeners.forEach(listener => listener(apply));
+};
+
+// The listener gets a function that activates the new version; the page
+// reloads once it has taken control.
+export const onUpdateAvailable = (listener: Listener) => {
+  listeners.add(listener);
+  if (waiting) listener(apply);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  // The native app loads its files from the APK, and the dev server must never be cached
+  if (Capacitor.isNativePlatform() || !import.meta.env.PROD) {
+    navigator.serviceWorker.getRegistrations().then(regs => regs.forEach(reg => reg.unregister()));
+    return;
+  }
+
+  const register = async () => {
+    const reg = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+    // Without a controller this is the first install, not an update
+    if (reg.waiting && navigator.serviceWorker.controller) notify(reg.waiting);
+    reg.addEventListener('updatefound', () => {
+      const worker = reg.installing;
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) notify(worker);
+      });
+    });
+    // Installed apps can stay open for days without a navigation that would check
+    setInterval(() => reg.update().catch(() => {}), UPDATE_CHECK_MS);
+  };
+
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (!applying) return;
+    applying = false;
+    window.location.reload();
+  });
+
+  if (document.readyState === 'complete') register();
+  else window.addEventListener('load', () => register());
+};
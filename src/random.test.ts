@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { BENCHMARK_FORMS, benchmarkSeed, createRandom, parseSessionCode, sessionCode, shuffleArray } from './random';
+
+describe('session codes', () => {
+  it('round-trip every seed, including both ends of the range', () => {
+    for (const seed of [0, 1, 31, 32, 0x2f6b1c93, 2 ** 31, 2 ** 32 - 1]) {
+      const code = sessionCode(seed);
+      expect(code).toHaveLength(7);
+      expect(parseSessionCode(code)).toBe(seed);
+    }
+  });
+
+  it('forgive case, dashes, spaces and the look-alikes I, L and O', () => {
+    const code = sessionCode(0x01234567);
+    expect(parseSessionCode(code.toLowerCase())).toBe(0x01234567);
+    expect(parseSessionCode(`${code.slice(0, 3)}-${code.slice(3)}`)).toBe(0x01234567);
+    expect(parseSessionCode(' 0000 01 ')).toBe(1);
+    expect(parseSessionCode('OOOOOOI')).toBe(1);
+    expect(parseSessionCode('00000L0')).toBe(32);
+  });
+
+  it('reject codes that are empty, too long, outside the alphabet or above 32 bits', () => {
+    expect(parseSessionCode('')).toBeNull();
+    expect(parseSessionCode('---')).toBeNull();
+    expect(parseSessionCode('00000000')).toBeNull();
+    expect(parseSessionCode('0000U00')).toBeNull();
+    expect(parseSessionCode('4000000')).toBeNull();
+    expect(parseSessionCode('3ZZZZZZ')).toBe(2 ** 32 - 1);
+  });
+});
+
+describe('seeded generation', () => {
+  it('repeats the same stimuli for the same seed and stream', () => {
+    const draw = (stream?: number) => {
+      const random = createRandom(42, stream);
+      return Array.from({ length: 5 }, () => random());
+    };
+    expect(draw()).toEqual(draw());
+    expect(draw(3)).toEqual(draw(3));
+    expect(draw(3)).not.toEqual(draw(4));
+    expect(shuffleArray(createRandom(7), [1, 2, 3, 4, 5, 6])).toEqual(shuffleArray(createRandom(7), [1, 2, 3, 4, 5, 6]));
+  });
+
+  it('gives each benchmark form its own fixed seed', () => {
+    const seeds = BENCHMARK_FORMS.map(f => benchmarkSeed(f.id));
+    expect(new Set(seeds).size).toBe(BENCHMARK_FORMS.length);
+    expect(benchmarkSeed('A')).toBe(0x2f6b1c93);
+    expect(benchmarkSeed('Z')).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+// Seeded generation, so a session can be replayed from its seed and
+// trainees can be compared on exactly the same stimuli.
+export type Random = () => number; // [0, 1), like Math.random
+
+// mulberry32: small, fast and good enough for shuffling stimuli
+const mulberry32 = (seed: number): Random => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Scrambles the seed with a stream number (murmur3 finalizer)
+const mix = (seed: number, stream: number) => {
+  let h = (seed ^ Math.imul(stream + 1, 0x9e3779b9)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// Games draw each trial (or page) from its own stream, so one trial's stimuli
+// don't depend on how many numbers earlier trials happened to use.
+export const createRandom = (seed: number, stream?: number): Random =>
+  mulberry32(stream === undefined ? seed : mix(seed, stream));
+
+export const newSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+export const randomInt = (random: Random, n: number) => Math.floor(random() * n);
+
+export const pickRandom = <T>(random: Random, items: T[]) => items[randomInt(random, items.length)];
+
+export const shuffleArray = <T>(random: Random, array: T[]): T[] => {
+  const newArr = [...array];
+  for (let i = newArr.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1);
+    [newArr[i], newArr[j]] = [newArr[j], newArr[i]];
+  }
+  return newArr;
+};
+
+// Session codes are the seed in Crockford base32: no I, L, O or U, and
+// case, dashes and the look-alikes I/L (1) and O (0) are forgiven when typed.
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 7;
+
+export const sessionCode = (seed: number) => {
+  let code = '';
+  let n = seed >>> 0;
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code = CODE_ALPHABET[n % 32] + code;
+    n = Math.floor(n / 32);
+  }
+  return code;
+};
+
+export const parseSessionCode = (code: string): number | null => {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, '').replace(/[IL]/g, '1').replace(/O/g, '0');
+  if (normalized === '' || normalized.length > CODE_LENGTH) return null;
+  let n = 0;
+  for (const char of normalized) {
+    const digit = CODE_ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+    n = n * 32 + digit;
+  }
+  return n < 2 ** 32 ? n : null;
+};
+
+// Fixed forms for periodic standardized assessment, kept apart from daily
+// training. Never change a seed here: past results would stop being comparable.
+export const BENCHMARK_FORMS = [
+  { id: 'A', seed: 0x2f6b1c93 },
+  { id: 'B', seed: 0x8a41d75e },
+  { id: 'C', seed: 0x51c90e2a },
+  { id: 'D', seed: 0xc7342f81 },
+];
+
+export const benchmarkSeed = (form: string) => BENCHMARK_FORMS.find(f => f.id === form)?.seed ?? null;
@@ -0,0 +1,59 @@
+import { Capacitor } from '@capacitor/core';
+import { LocalNotifications } from '@capacitor/local-notifications';
+
+const TITLE = 'PSI Training';
+const BODY = '今日のトレーニングの時間です。';
+
+// setTimeout overflows beyond ~24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+let webTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Asked when the user picks a reminder time, since browsers only prompt from a user gesture
+export const requestReminderPermission = async () => {
+  if (Capacitor.isNativePlatform()) {
+    return (await LocalNotifications.requestPermissions()).display === 'granted';
+  }
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission === 'default') await Notification.requestPermission();
+  return Notification.permission === 'granted';
+};
+
+// Pages controlled by a service worker (and Android Chrome) reject the
+// Notification constructor, so go through the registration when there is one
+const showNotification = async () => {
+  const reg = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (reg) {
+    await (await navigator.serviceWorker.ready).showNotification(TITLE, { body: BODY });
+    return;
+  }
+  try {
+    new Notification(TITLE, { body: BODY });
+  } catch (e) {
+    console.error('Failed to show reminder', e);
+  }
+};
+
+// Replaces whatever was scheduled with `times`. Android gets one local
+// notification per day, delivered even when the app is closed. The web has no
+// scheduled notifications, so there the next one only fires while the app is open.
+export const syncReminders = async (times: Date[]) => {
+  if (Capacitor.isNativePlatform()) {
+    const { notifications } = await LocalNotifications.getPending();
+    if (notifications.length > 0) await LocalNotifications.cancel({ notifications: notifications.map(n => ({ id: n.id })) });
+    if (times.length === 0 || (await LocalNotifications.checkPermissions()).display !== 'granted') return;
+    await LocalNotifications.schedule({
+      notifications: times.map((at, i) => ({ id: i + 1, title: TITLE, body: BODY, schedule: { at, allowWhileIdle: true } })),
+    });
+    return;
+  }
+  if (webTimer) clearTimeout(webTimer);
+  webTimer = null;
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  const [next, ...rest] = times.filter(t => t.getTime() > Date.now());
+  if (!next || next.getTime() - Date.now() > MAX_TIMEOUT_MS) return;
+  webTimer = setTimeout(() => {
+    syncReminders(rest);
+    showNotification().catch(e => console.error('Failed to show reminder', e));
+  }, next.getTime() - Date.now());
+};
@@ -0,0 +1,156 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StatEntry } from './types';
+
+// Mirrors Storage: entries are own properties, the methods live on the prototype
+class MemoryStorage {
+  [key: string]: any;
+  getItem(key: string) { return Object.hasOwn(this, key) ? this[key] : null; }
+  setItem(key: string, value: string) { this[key] = String(value); }
+  removeItem(key: string) { delete this[key]; }
+}
+
+const entry = (id: string, date: number, extra: object = {}) =>
+  ({ id, date, gameType: 'coding', psi: 100, score: 20, mistakes: 1, elapsed: 60, ...extra });
+
+// A fresh module each time, so the backend is chosen again
+const loadStorage = () => import('./storage');
+
+const putInIndexedDb = (values: Record<string, string>) => new Promise<void>((resolve, reject) => {
+  const req = indexedDB.open('psi-training', 1);
+  req.onupgradeneeded = () => req.result.createObjectStore('kv');
+  req.onerror = () => reject(req.error);
+  req.onsuccess = () => {
+    const tx = req.result.transaction('kv', 'readwrite');
+    Object.entries(values).forEach(([key, value]) => tx.objectStore('kv').put(value, key));
+    tx.oncomplete = () => {
+      req.result.close();
+      resolve();
+    };
+  };
+});
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.stubGlobal('localStorage', new MemoryStorage());
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('migrateStats', () => {
+  it('renames pri to psi and fills in an unknown config for version 0 records', async () => {
+    const { migrateStats } = await loadStorage();
+    const { valid, invalid } = migrateStats([{ ...entry('1', 1), psi: undefined, pri: 104 }], 0);
+    expect(invalid).toBe(0);
+    expect(valid[0].psi).toBe(104);
+    expect(valid[0].config).toMatchObject({ adaptive: false, inputMethod: 'unknown' });
+  });
+
+  it('keeps the config of current records and drops ones that do not validate', async () => {
+    const { SCHEMA_VERSION, migrateStats } = await loadStorage();
+    const config = { symbolCount: 6, searchSize: null, targetCount: null, adaptive: true, appVersion: '1', inputMethod: 'touch' };
+    const { valid, invalid } = migrateStats([entry('1', 1, { config }), { id: 2 }, null], SCHEMA_VERSION);
+    expect(valid).toHaveLength(1);
+    expect(valid[0].config).toEqual(config);
+    expect(invalid).toBe(2);
+  });
+});
+
+describe('loadStats', () => {
+  it('moves the pre-versioned pri_stats array to the versioned document', async () => {
+    localStorage.setItem('pri_stats', JSON.stringify([{ ...entry('1', 1), psi: undefined, pri: 97 }]));
+    const { SCHEMA_VERSION, loadStats } = await loadStorage();
+    const { stats, backupKey } = await loadStats('default');
+    expect(stats.map(s => s.psi)).toEqual([97]);
+    expect(backupKey).toBeNull();
+    expect(localStorage.getItem('pri_stats')).toBeNull();
+    expect(JSON.parse(localStorage.getItem('stats')!)).toMatchObject({ version: SCHEMA_VERSION, stats: [{ id: '1', psi: 97 }] });
+  });
+
+  it('keeps profiles apart and ignores legacy keys for profiles other than the default', async () => {
+    localStorage.setItem('psi_stats', JSON.stringify([entry('1', 1)]));
+    const { loadStats, saveStats } = await loadStorage();
+    await saveStats('p1', [entry('2', 2) as StatEntry]);
+    expect((await loadStats('p1')).stats.map(s => s.id)).toEqual(['2']);
+    expect((await loadStats('default')).stats.map(s => s.id)).toEqual(['1']);
+  });
+
+  it('backs up an unreadable document instead of losing it', async () => {
+    localStorage.setItem('stats', '{not json');
+    const { loadStats } = await loadStorage();
+    const { stats, backupKey } = await loadStats('default');
+    expect(stats).toEqual([]);
+    expect(localStorage.getItem(backupKey!)).toBe('{not json');
+    expect(localStorage.getItem('stats')).toBeNull();
+  });
+
+  it('backs up the original when some records are invalid and keeps the rest', async () => {
+    const { SCHEMA_VERSION, loadStats } = await loadStorage();
+    const raw = JSON.stringify({ version: SCHEMA_VERSION, stats: [entry('1', 1), { id: 'broken' }] });
+    localStorage.setItem('stats', raw);
+    const { stats, backupKey } = await loadStats('default');
+    expect(stats.map(s => s.id)).toEqual(['1']);
+    expect(localStorage.getItem(backupKey!)).toBe(raw);
+    expect(JSON.parse(localStorage.getItem('stats')!).stats).toHaveLength(1);
+  });
+});
+
+describe('IndexedDB fallback', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  it('merges sessions saved to localStorage while IndexedDB was unavailable', async () => {
+    const { SCHEMA_VERSION } = await loadStorage();
+    await putInIndexedDb({
+      stats: JSON.stringify({ version: SCHEMA_VERSION, stats: [entry('1', 1), entry('3', 3)] }),
+      sync_state: JSON.stringify({ pending: ['3'], cursor: 5, lastSync: 10, remoteId: 'default-abc' }),
+    });
+    localStorage.setItem('stats', JSON.stringify({ version: SCHEMA_VERSION, stats: [entry('1', 1), entry('2', 2)] }));
+
+    vi.resetModules();
+    const { loadStats, loadSyncState } = await loadStorage();
+    const { stats } = await loadStats('default');
+    expect(stats.map(s => s.id)).toEqual(['1', '2', '3']);
+    expect(localStorage.getItem('stats')).toBeNull();
+    // The recovered session still has to reach the sync server
+    const state = await loadSyncState('default', stats);
+    expect(state).toMatchObject({ cursor: 5, remoteId: 'default-abc' });
+    expect(state.pending.sort()).toEqual(['2', '3']);
+  });
+
+  it('moves fallback documents IndexedDB does not have yet', async () => {
+    const { SCHEMA_VERSION } = await loadStorage();
+    localStorage.setItem('stats:p1', JSON.stringify({ version: SCHEMA_VERSION, stats: [entry('1', 1)] }));
+    localStorage.setItem('assessments:p1', JSON.stringify({ version: SCHEMA_VERSION, assessments: [{ id: 'a', date: 1, psi: 100, subtests: [] }] }));
+
+    vi.resetModules();
+    const { loadAssessments, loadStats } = await loadStorage();
+    expect((await loadStats('p1')).stats.map(s => s.id)).toEqual(['1']);
+    expect((await loadAssessments('p1')).map(a => a.id)).toEqual(['a']);
+    expect(localStorage.getItem('stats:p1')).toBeNull();
+    expect(localStorage.getItem('assessments:p1')).toBeNull();
+  });
+
+  it('keeps an unmergeable fallback document as a backup', async () => {
+    await putInIndexedDb({ stats: '{not json' });
+    localStorage.setItem('stats', '{"version":2,"stats":[]}');
+
+    const { loadStats } = await loadStorage();
+    await loadStats('default');
+    expect(localStorage.getItem('stats')).toBeNull();
+    const keys: string[] = await new Promise(resolve => {
+      const req = indexedDB.open('psi-training', 1);
+      req.onsuccess = () => {
+        const all = req.result.transaction('kv').objectStore('kv').getAllKeys();
+        all.onsuccess = () => resolve(all.result as string[]);
+      };
+    });
+    expect(keys.some(k => k.startsWith('stats_fallback_backup_'))).toBe(true);
+  });
+});
@@ -0,0 +1,523 @@
+import { GAMES, withConfig } from './config';
+import { DEFAULT_KEY_BINDINGS, parseKeyBindings } from './keys';
+import type { KeyBindings } from './keys';
+import { parseNormTable } from './norms';
+import type { NormTable } from './norms';
+import { DEFAULT_GOALS, parseGoals } from './goals';
+import type { Goals } from './goals';
+import { parseEnrollment } from './program';
+import type { ProgramEnrollment } from './program';
+import type { Assessment, CustomSymbolSet, StatEntry } from './types';
+
+// Bump when the persisted shape of StatEntry changes and add a migration below.
+export const SCHEMA_VERSION = 2;
+
+type StatsDocument = {
+  version: number;
+  stats: StatEntry[];
+};
+
+type Migration = {
+  version: number; // schema version this migration produces
+  migrate: (stats: any[]) => any[];
+};
+
+// Applied in order to anything older than SCHEMA_VERSION
+const MIGRATIONS: Migration[] = [
+  // pri -> psi rename
+  { version: 1, migrate: stats => stats.map(s => ({ ...s, psi: s.psi ?? s.pri })) },
+  // Session configuration, unknown for older entries
+  { version: 2, migrate: stats => stats.map(withConfig) },
+];
+
+const STATS_KEY = 'stats';
+const ASSESSMENTS_KEY = 'assessments';
+const BACKUP_PREFIX = 'stats_backup_';
+const ASSESSMENTS_BACKUP_PREFIX = 'assessments_backup_';
+const LEGACY_STATS_KEYS: [string, number][] = [['psi_stats', 1], ['pri_stats', 0]];
+const THEME_KEY = 'psi_theme';
+const LEGACY_THEME_KEY = 'pri_theme';
+const SETTINGS_KEY = 'psi_settings';
+const PROFILES_KEY = 'psi_profiles';
+const SYNC_CONFIG_KEY = 'psi_sync';
+const SYNC_STATE_KEY = 'sync_state';
+const DEVICE_ID_KEY = 'psi_device_id';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+// The default profile keeps the pre-profile keys so existing data stays in place
+const profileKey = (key: string, profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+
+type Backend = {
+  get: (key: string) => Promise<string | null>;
+  set: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+};
+
+const localStorageBackend: Backend = {
+  get: async key => localStorage.getItem(key),
+  set: async (key, value) => localStorage.setItem(key, value),
+  remove: async key => localStorage.removeItem(key),
+};
+
+const DB_NAME = 'psi-training';
+const DB_STORE = 'kv';
+
+const openIndexedDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, 1);
+  req.onupgradeneeded = () => req.result.createObjectStore(DB_STORE);
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const indexedDbBackend = (db: IDBDatabase): Backend => {
+  const run = <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+      const req = op(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  return {
+    get: async key => (await run('readonly', s => s.get(key))) ?? null,
+    set: async (key, value) => { await run('readwrite', s => s.put(value, key)); },
+    remove: async key => { await run('readwrite', s => s.delete(key)); },
+  };
+};
+
+let backendPromise: Promise<Backend> | null = null;
+
+// IndexedDB lifts the ~5MB localStorage quota; fall back where it's unavailable
+const getBackend = () => {
+  if (!backendPromise) {
+    backendPromise = (typeof indexedDB === 'undefined' ? Promise.reject(new Error('IndexedDB unavailable')) : openIndexedDb())
+      .then(async db => {
+        const backend = indexedDbBackend(db);
+        await adoptFallback(backend);
+        return backend;
+      })
+      .catch(e => {
+        console.warn('Falling back to localStorage', e);
+        return localStorageBackend;
+      });
+  }
+  return backendPromise;
+};
+
+const isStatEntry = (s: any): s is StatEntry =>
+  !!s && typeof s === 'object'
+  && typeof s.id === 'string'
+  && typeof s.date === 'number'
+  && GAMES.includes(s.gameType)
+  && typeof s.psi === 'number'
+  && typeof s.score === 'number'
+  && typeof s.mistakes === 'number'
+  && typeof s.elapsed === 'number';
+
+// Brings records written at `version` up to SCHEMA_VERSION and drops any that don't validate
+export const migrateStats = (records: unknown[], version: number) => {
+  let migrated: any[] = records;
+  for (const m of MIGRATIONS) {
+    if (m.version > version) migrated = m.migrate(migrated);
+  }
+  const valid = migrated.filter(isStatEntry);
+  return { valid, invalid: migrated.length - valid.length };
+};
+
+export type LoadResult = {
+  stats: StatEntry[];
+  // Key under which unreadable data was preserved, if any
+  backupKey: string | null;
+};
+
+const backup = async (backend: Backend, raw: string, prefix = BACKUP_PREFIX) => {
+  const key = `${prefix}${Date.now()}`;
+  await backend.set(key, raw);
+  return key;
+};
+
+type RawDocument = {
+  raw: string;
+  legacy: { key: string, version: number } | null;
+};
+
+const readDocument = async (backend: Backend, profileId: string): Promise<RawDocument | null> => {
+  const raw = await backend.get(profileKey(STATS_KEY, profileId));
+  if (raw !== null) return { raw, legacy: null };
+  if (profileId !== DEFAULT_PROFILE_ID) return null;
+  for (const [key, version] of LEGACY_STATS_KEYS) {
+    const legacyRaw = localStorage.getItem(key);
+    if (legacyRaw !== null) return { raw: legacyRaw, legacy: { key, version } };
+  }
+  return null;
+};
+
+export const loadStats = async (profileId: string): Promise<LoadResult> => {
+  const backend = await getBackend();
+  const doc = await readDocument(backend, profileId);
+  if (!doc) return { stats: [], backupKey: null };
+
+  let version: number;
+  let records: unknown;
+  try {
+    const parsed = JSON.parse(doc.raw);
+    // Legacy keys hold a bare array; the current format wraps it with a version
+    if (doc.legacy) {
+      version = doc.legacy.version;
+      records = parsed;
+    } else {
+      version = (parsed as StatsDocument).version;
+      records = (parsed as StatsDocument).stats;
+    }
+    if (!Array.isArray(records) || typeof version !== 'number') throw new Error('Unexpected stats format');
+  } catch (e) {
+    console.error('Stats could not be read; keeping a backup', e);
+    const backupKey = await backup(backend, doc.raw);
+    await backend.remove(profileKey(STATS_KEY, profileId));
+    if (doc.legacy) localStorage.removeItem(doc.legacy.key);
+    return { stats: [], backupKey };
+  }
+
+  const { valid, invalid } = migrateStats(records, version);
+  let backupKey: string | null = null;
+  if (invalid > 0) {
+    console.error(`${invalid} invalid stat records; keeping a backup`);
+    backupKey = await backup(backend, doc.raw);
+  }
+
+  if (doc.legacy || version !== SCHEMA_VERSION || backupKey) {
+    await saveStats(profileId, valid);
+    if (doc.legacy) localStorage.removeItem(doc.legacy.key);
+  }
+  return { stats: valid, backupKey };
+};
+
+export const saveStats = async (profileId: string, stats: StatEntry[]) => {
+  const backend = await getBackend();
+  const doc: StatsDocument = { version: SCHEMA_VERSION, stats };
+  await backend.set(profileKey(STATS_KEY, profileId), JSON.stringify(doc));
+};
+
+export const clearStats = async (profileId: string) => {
+  const backend = await getBackend();
+  await backend.remove(profileKey(STATS_KEY, profileId));
+};
+
+type AssessmentsDocument = {
+  version: number; // schema version of the subtest entries
+  assessments: Assessment[];
+};
+
+const isAssessment = (a: any): a is Assessment =>
+  !!a && typeof a === 'object'
+  && typeof a.id === 'string'
+  && typeof a.date === 'number'
+  && typeof a.psi === 'number'
+  && Array.isArray(a.subtests);
+
+// Subtests go through the same migrations as training sessions
+export const parseAssessments = (records: unknown[], version: number): Assessment[] =>
+  records.filter(isAssessment).map(a => ({ ...a, subtests: migrateStats(a.subtests, version).valid }));
+
+export const loadAssessments = async (profileId: string): Promise<Assessment[]> => {
+  const backend = await getBackend();
+  const key = profileKey(ASSESSMENTS_KEY, profileId);
+  const raw = await backend.get(key);
+  if (raw === null) return [];
+  try {
+    const parsed: AssessmentsDocument = JSON.parse(raw);
+    if (!Array.isArray(parsed.assessments) || typeof parsed.version !== 'number') throw new Error('Unexpected assessments format');
+    return parseAssessments(parsed.assessments, parsed.version);
+  } catch (e) {
+    console.error('Assessments could not be read; keeping a backup', e);
+    await backup(backend, raw, ASSESSMENTS_BACKUP_PREFIX);
+    await backend.remove(key);
+    return [];
+  }
+};
+
+export const saveAssessments = async (profileId: string, assessments: Assessment[]) => {
+  const backend = await getBackend();
+  const doc: AssessmentsDocument = { version: SCHEMA_VERSION, assessments };
+  await backend.set(profileKey(ASSESSMENTS_KEY, profileId), JSON.stringify(doc));
+};
+
+const mergeById = <T extends { id: string, date: number }>(existing: T[], added: T[]) => {
+  const ids = new Set(existing.map(x => x.id));
+  return [...existing, ...added.filter(x => !ids.has(x.id))].sort((a, b) => a.date - b.date);
+};
+
+const readStats = (raw: string) => {
+  const doc: StatsDocument = JSON.parse(raw);
+  if (!Array.isArray(doc.stats) || typeof doc.version !== 'number') throw new Error('Unexpected stats format');
+  return migrateStats(doc.stats, doc.version).valid;
+};
+
+const readAssessments = (raw: string) => {
+  const doc: AssessmentsDocument = JSON.parse(raw);
+  if (!Array.isArray(doc.assessments) || typeof doc.version !== 'number') throw new Error('Unexpected assessments format');
+  return parseAssessments(doc.assessments, doc.version);
+};
+
+// Folds one profile's fallback documents into IndexedDB; `suffix` is the
+// profile part of the key (see profileKey)
+const adoptProfile = async (backend: Backend, suffix: string) => {
+  const statsKey = STATS_KEY + suffix;
+  const syncKey = SYNC_STATE_KEY + suffix;
+  const assessmentsKey = ASSESSMENTS_KEY + suffix;
+
+  const fallbackStats = localStorage.getItem(statsKey);
+  const fallbackSync = localStorage.getItem(syncKey);
+  const stored = await backend.get(statsKey);
+  if (fallbackStats !== null && stored !== null) {
+    const existing = readStats(stored);
+    const added = readStats(fallbackStats).filter(s => !existing.some(e => e.id === s.id));
+    await backend.set(statsKey, JSON.stringify({ version: SCHEMA_VERSION, stats: mergeById(existing, added) }));
+    // Without a saved state every session is pending anyway
+    const storedSync = await backend.get(syncKey);
+    if (storedSync !== null) {
+      const state = JSON.parse(storedSync);
+      const fallbackPending: string[] = fallbackSync !== null ? JSON.parse(fallbackSync).pending ?? [] : [];
+      const pending = new Set([...(state.pending ?? []), ...fallbackPending, ...added.map(s => s.id)]);
+      await backend.set(syncKey, JSON.stringify({ ...state, pending: [...pending] }));
+    }
+  } else {
+    if (fallbackStats !== null) await backend.set(statsKey, fallbackStats);
+    if (fallbackSync !== null && stored === null) await backend.set(syncKey, fallbackSync);
+  }
+
+  const fallbackAssessments = localStorage.getItem(assessmentsKey);
+  if (fallbackAssessments !== null) {
+    const storedAssessments = await backend.get(assessmentsKey);
+    const merged = storedAssessments === null ? fallbackAssessments
+      : JSON.stringify({ version: SCHEMA_VERSION, assessments: mergeById(readAssessments(storedAssessments), readAssessments(fallbackAssessments)) });
+    await backend.set(assessmentsKey, merged);
+  }
+};
+
+// Documents written to localStorage while IndexedDB couldn't be opened. Once it
+// opens again they are merged into it; otherwise the sessions recorded in the
+// meantime would be hidden behind the IndexedDB copy.
+const adoptFallback = async (backend: Backend) => {
+  const keys = Object.keys(localStorage);
+  const suffixes = new Set(keys.flatMap(key => {
+    const [base, ...rest] = key.split(':');
+    return [STATS_KEY, SYNC_STATE_KEY, ASSESSMENTS_KEY].includes(base) ? [rest.length > 0 ? `:${rest.join(':')}` : ''] : [];
+  }));
+  for (const suffix of suffixes) {
+    const keysOf = [STATS_KEY, SYNC_STATE_KEY, ASSESSMENTS_KEY].map(base => base + suffix);
+    try {
+      await adoptProfile(backend, suffix);
+    } catch (e) {
+      console.error('Data saved while IndexedDB was unavailable could not be merged; keeping a backup', e);
+      for (const key of keysOf) {
+        const raw = localStorage.getItem(key);
+        if (raw !== null) await backup(backend, raw, `${key}_fallback_backup_`);
+      }
+    }
+    keysOf.forEach(key => localStorage.removeItem(key));
+  }
+  // Backups of unreadable data are kept as they are
+  for (const key of keys.filter(k => k.startsWith(BACKUP_PREFIX) || k.startsWith(ASSESSMENTS_BACKUP_PREFIX))) {
+    if (await backend.get(key) === null) await backend.set(key, localStorage.getItem(key)!);
+    localStorage.removeItem(key);
+  }
+};
+
+// Theme is read synchronously on startup to avoid a flash of the wrong theme
+export const loadTheme = (profileId: string): 'dark' | 'white' | null => {
+  const legacy = localStorage.getItem(LEGACY_THEME_KEY);
+  if (legacy && profileId === DEFAULT_PROFILE_ID) {
+    if (!localStorage.getItem(THEME_KEY)) localStorage.setItem(THEME_KEY, legacy);
+    localStorage.removeItem(LEGACY_THEME_KEY);
+  }
+  const saved = localStorage.getItem(profileKey(THEME_KEY, profileId));
+  return saved === 'dark' || saved === 'white' ? saved : null;
+};
+
+export const saveTheme = (profileId: string, theme: 'dark' | 'white') =>
+  localStorage.setItem(profileKey(THEME_KEY, profileId), theme);
+
+export type Settings = {
+  norms: NormTable | null; // null = built-in norms
+  ageBand: string | null;
+  keyBindings: KeyBindings;
+  customSymbolSets: CustomSymbolSet[];
+  program: ProgramEnrollment | null;
+  goals: Goals;
+};
+
+const DEFAULT_SETTINGS: Settings = { norms: null, ageBand: null, keyBindings: DEFAULT_KEY_BINDINGS, customSymbolSets: [], program: null, goals: DEFAULT_GOALS };
+
+const parseCustomSymbolSets = (value: unknown): CustomSymbolSet[] =>
+  Array.isArray(value)
+    ? value.filter(s => s && typeof s.id === 'string' && typeof s.name === 'string'
+      && Array.isArray(s.symbols) && s.symbols.every((c: unknown) => typeof c === 'string'))
+    : [];
+
+const parseNorms = (json: string | null) => {
+  if (!json) return null;
+  try {
+    return parseNormTable(json);
+  } catch (e) {
+    console.error('Invalid saved norm table', e);
+    return null;
+  }
+};
+
+export const loadSettings = (profileId: string): Settings => {
+  const key = profileKey(SETTINGS_KEY, profileId);
+  const saved = localStorage.getItem(key);
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      return {
+        norms: parsed.norms ? parseNorms(JSON.stringify(parsed.norms)) : null,
+        ageBand: typeof parsed.ageBand === 'string' ? parsed.ageBand : null,
+        keyBindings: parseKeyBindings(parsed.keyBindings),
+        customSymbolSets: parseCustomSymbolSets(parsed.customSymbolSets),
+        program: parseEnrollment(parsed.program),
+        goals: parseGoals(parsed.goals),
+      };
+    } catch (e) {
+      console.error('Settings could not be read; keeping a backup', e);
+      localStorage.setItem(`${key}_backup_${Date.now()}`, saved);
+      localStorage.removeItem(key);
+      return DEFAULT_SETTINGS;
+    }
+  }
+  if (profileId !== DEFAULT_PROFILE_ID) return DEFAULT_SETTINGS;
+
+  // Migration: separate norm/age band keys -> one settings record
+  const legacy: Settings = {
+    norms: parseNorms(localStorage.getItem('psi_norms')),
+    ageBand: localStorage.getItem('psi_age_band'),
+    keyBindings: DEFAULT_KEY_BINDINGS,
+    customSymbolSets: [],
+    program: null,
+    goals: DEFAULT_GOALS,
+  };
+  if (legacy.norms || legacy.ageBand) {
+    saveSettings(profileId, legacy);
+    localStorage.removeItem('psi_norms');
+    localStorage.removeItem('psi_age_band');
+  }
+  return legacy;
+};
+
+export const saveSettings = (profileId: string, settings: Settings) =>
+  localStorage.setItem(profileKey(SETTINGS_KEY, profileId), JSON.stringify(settings));
+
+export type Profile = {
+  id: string;
+  name: string;
+  createdAt: number;
+};
+
+export type ProfileState = {
+  activeId: string;
+  profiles: Profile[];
+};
+
+const DEFAULT_PROFILES: ProfileState = {
+  activeId: DEFAULT_PROFILE_ID,
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'ゲスト', createdAt: 0 }],
+};
+
+export const loadProfiles = (): ProfileState => {
+  const saved = localStorage.getItem(PROFILES_KEY);
+  if (!saved) return DEFAULT_PROFILES;
+  try {
+    const parsed: ProfileState = JSON.parse(saved);
+    const profiles = Array.isArray(parsed.profiles)
+      ? parsed.profiles.filter(p => p && typeof p.id === 'string' && typeof p.name === 'string')
+      : [];
+    if (profiles.length === 0) return DEFAULT_PROFILES;
+    const activeId = profiles.some(p => p.id === parsed.activeId) ? parsed.activeId : profiles[0].id;
+    return { activeId, profiles };
+  } catch (e) {
+    console.error('Profiles could not be read; keeping a backup', e);
+    localStorage.setItem(`${PROFILES_KEY}_backup_${Date.now()}`, saved);
+    return DEFAULT_PROFILES;
+  }
+};
+
+export const saveProfiles = (state: ProfileState) =>
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(state));
+
+// The sync server is shared by every profile on the device
+export type SyncConfig = {
+  url: string;
+  token: string;
+};
+
+export const loadSyncConfig = (): SyncConfig | null => {
+  const saved = localStorage.getItem(SYNC_CONFIG_KEY);
+  if (!saved) return null;
+  try {
+    const parsed = JSON.parse(saved);
+    return typeof parsed.url === 'string' && parsed.url !== ''
+      ? { url: parsed.url, token: typeof parsed.token === 'string' ? parsed.token : '' }
+      : null;
+  } catch (e) {
+    console.error('Sync settings could not be read', e);
+    return null;
+  }
+};
+
+export const saveSyncConfig = (config: SyncConfig | null) => {
+  if (config) localStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(config));
+  else localStorage.removeItem(SYNC_CONFIG_KEY);
+};
+
+// Random per install, to tell devices apart where profile ids alone would collide
+export const deviceId = () => {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = Math.random().toString(36).slice(2, 10);
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+};
+
+// Per-profile sync bookkeeping: sessions not yet on the server and how far we've pulled
+export type SyncState = {
+  pending: string[]; // session ids
+  cursor: number;
+  lastSync: number | null;
+  remoteId: string | null; // server profile the queue and cursor refer to; null before the first sync
+};
+
+// Until the first sync every local session counts as pending
+export const loadSyncState = async (profileId: string, stats: StatEntry[]): Promise<SyncState> => {
+  const raw = await (await getBackend()).get(profileKey(SYNC_STATE_KEY, profileId));
+  if (raw !== null) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed.pending) && typeof parsed.cursor === 'number') {
+        return {
+          pending: parsed.pending.filter((id: unknown) => typeof id === 'string'),
+          cursor: parsed.cursor,
+          lastSync: parsed.lastSync ?? null,
+          // States from before guest profiles got per-device server ids were kept under the local id
+          remoteId: typeof parsed.remoteId === 'string' ? parsed.remoteId : profileId,
+        };
+      }
+    } catch (e) {
+      console.error('Sync state could not be read; starting over', e);
+    }
+  }
+  return { pending: stats.map(s => s.id), cursor: 0, lastSync: null, remoteId: null };
+};
+
+export const saveSyncState = async (profileId: string, state: SyncState) => {
+  await (await getBackend()).set(profileKey(SYNC_STATE_KEY, profileId), JSON.stringify(state));
+};
+
+export const deleteProfileData = async (profileId: string) => {
+  await clearStats(profileId);
+  await (await getBackend()).remove(profileKey(ASSESSMENTS_KEY, profileId));
+  await (await getBackend()).remove(profileKey(SYNC_STATE_KEY, profileId));
+  localStorage.removeItem(profileKey(SETTINGS_KEY, profileId));
+  localStorage.removeItem(profileKey(THEME_KEY, profileId));
+};
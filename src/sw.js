@@ -0,0 +1,44 @@
+// Service worker template. The serviceWorker plugin in vite.config.ts fills in
+// the build's file list and version and emits it as sw.js; it is not bundled
+// with the app and only runs in production builds.
+const VERSION = __SW_VERSION__;
+const PRECACHE = __SW_PRECACHE__;
+const CACHE_PREFIX = 'psi-training-';
+const CACHE = `${CACHE_PREFIX}${VERSION}`;
+
+const scoped = (file) => new URL(file, self.registration.scope).href;
+const SHELL = scoped('index.html');
+
+// The new version waits until the app asks it to take over (see src/pwa.ts),
+// so an open session never switches to files from another build halfway through
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(PRECACHE.map(scoped))));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k.startsWith(CACHE_PREFIX) && k !== CACHE).map(k => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data === 'skip-waiting') self.skipWaiting();
+});
+
+// Everything the app needs is precached, so it is served from this version's
+// cache; the sync server and other origins always go to the network.
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.open(CACHE).then(cache => cache.match(SHELL)).then(res => res ?? fetch(request)));
+    return;
+  }
+  event.respondWith(
+    caches.open(CACHE)
+      .then(cache => cache.match(request, { ignoreSearch: true }))
+      .then(res => res ?? fetch(request)),
+  );
+});
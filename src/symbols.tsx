@@ -0,0 +1,179 @@
+import React from 'react';
+import {
+  Star, Circle, Triangle, Square, Hexagon, Diamond, Cloud, Sun, Moon, Heart,
+  Zap, Flame, Droplet, Leaf, Snowflake,
+  Anchor, Bell, Bird, Bug, Camera, Car, Clock, Crown, Feather, Fish, Flag, Gift,
+  Key, Music, Umbrella, Rocket, Scissors, Shield, Apple, Bike, Cat, Dog, Glasses, Plane,
+} from 'lucide-react';
+import { DEFAULT_SYMBOL_SET_ID } from './config';
+import type { SymbolTraits } from './distractors';
+import type { CustomSymbolSet } from './types';
+
+export type StimulusProps = {
+  className?: string;
+  strokeWidth?: number;
+  style?: React.CSSProperties;
+};
+
+// Anything that renders like a Lucide icon: sized and coloured through className
+export type Stimulus = React.ComponentType<StimulusProps>;
+
+// Trials refer to symbols by their index in the session's set.
+// traits[i] describes symbols[i] for the distractor similarity model.
+export type SymbolSet = {
+  id: string;
+  name: string;
+  symbols: Stimulus[];
+  traits: SymbolTraits[];
+  custom?: boolean;
+};
+
+// The smallest set 記号探し can run with: one target and three search items
+export const MIN_SYMBOL_SET_SIZE = 4;
+
+const textSymbol = (char: string): Stimulus => ({ className, style }) => (
+  <svg viewBox="0 0 24 24" className={className} style={style}>
+    <text x="12" y="12" textAnchor="middle" dominantBaseline="central" fontSize="20" fontWeight="700" fill="currentColor">{char}</text>
+  </svg>
+);
+
+const glyph = (d: string): Stimulus => ({ className, style, strokeWidth = 2 }) => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={strokeWidth} strokeLinecap="round" strokeLinejoin="round" className={className} style={style}>
+    <path d={d} />
+  </svg>
+);
+
+// Inline style wins over the text colour class the games pass in
+const colored = (Base: Stimulus, color: string): Stimulus => ({ style, ...props }) => (
+  <Base {...props} style={{ ...style, color }} />
+);
+
+const rotated = (Base: Stimulus, degrees: number): Stimulus => ({ style, ...props }) => (
+  <Base {...props} style={{ ...style, transform: `rotate(${degrees}deg)` }} />
+);
+
+const mirrored = (Base: Stimulus): Stimulus => ({ style, ...props }) => (
+  <Base {...props} style={{ ...style, transform: 'scaleX(-1)' }} />
+);
+
+// Icons that are easily mistaken for each other at a glance; the rest are in a family of their own
+const ICON_FAMILIES: Stimulus[][] = [
+  [Circle, Sun, Moon],
+  [Triangle, Square, Hexagon, Diamond],
+  [Star, Zap, Snowflake],
+  [Flame, Droplet, Leaf],
+  [Cloud, Heart],
+  [Bird, Bug, Cat, Dog, Fish],
+  [Car, Bike, Plane, Rocket],
+  [Key, Scissors, Anchor],
+  [Bell, Umbrella, Shield, Crown],
+  [Clock, Camera, Apple, Glasses],
+];
+
+const iconTraits = (symbols: Stimulus[]): SymbolTraits[] => symbols.map((Icon, i) => {
+  const family = ICON_FAMILIES.findIndex(f => f.includes(Icon));
+  return { family: family >= 0 ? `icon-${family}` : `own-${i}` };
+});
+
+// Characters that differ by a stroke or a curve, including mirror pairs like b/d
+const CONFUSABLE_CHARS = [
+  'OQCDG0', 'BPR8', 'EFLT', 'MNHW', 'UVY', 'KXZ', 'S25', 'IJ17', '369', 'A4',
+  'bdpq', 'nmhu', 'ceo', 'ijl',
+  'シツ', 'ソンリ', 'ウワ', 'クタ', 'コロユ', 'あお', 'ぬめ', 'はほ', 'るろ', 'われね', 'さちき', 'いり',
+];
+
+const charFamily = (char: string) => {
+  const family = CONFUSABLE_CHARS.findIndex(f => [...f].includes(char));
+  return family >= 0 ? `char-${family}` : `char-${char}`;
+};
+
+const textTraits = (chars: string[]): SymbolTraits[] => chars.map(char => ({ family: charFamily(char) }));
+
+// Line-drawn marks in the style of paper coding subtests, with the family each belongs to
+const GLYPHS: [string, string][] = [
+  ['M12 4v16M4 20h16', 'cross'],
+  ['M6 20V10a6 6 0 0 1 12 0v10', 'curve'],
+  ['M4 6h8a6 6 0 0 1 0 12H4', 'curve'],
+  ['M4 9h16M4 15h16', 'bars'],
+  ['M5 5l14 14M19 5L5 19', 'cross'],
+  ['M4 20L12 4l8 16', 'peak'],
+  ['M20 18V8H4', 'corner'],
+  ['M6 4v16M6 12h12', 'cross'],
+  ['M4 20L12 4l8 16M7 14h10', 'peak'],
+  ['M4 6h16M8 6v14M16 6v14', 'bars'],
+  ['M16 4c-4 0-4 4-4 8s0 8-4 8', 'curve'],
+  ['M6 4l12 8-12 8', 'peak'],
+  ['M4 6h16L4 18h16', 'bars'],
+  ['M12 4v16M4 12h16', 'cross'],
+  ['M4 20V6h12v8', 'corner'],
+  ['M4 12h16M12 4v8M8 20h8', 'cross'],
+];
+
+const SYMBOL_COLORS = ['#ef4444', '#3b82f6', '#22c55e'];
+const COLORED_SHAPES = [Circle, Square, Triangle, Diamond, Hexagon];
+const ROTATED_CHARS = [...'FGJP'];
+const ROTATIONS = [0, 90, 180, 270];
+const MIRRORED_CHARS = [...'FGJKLPR'];
+
+const DEFAULT_ICONS = [Star, Circle, Triangle, Square, Hexagon, Diamond, Cloud, Sun, Moon, Heart, Zap, Flame, Droplet, Leaf, Snowflake];
+const OBJECT_ICONS = [
+  Anchor, Bell, Bird, Bug, Camera, Car, Clock, Crown, Feather, Fish, Flag, Gift,
+  Key, Music, Umbrella, Rocket, Scissors, Shield, Apple, Bike, Cat, Dog, Glasses, Plane,
+];
+const LETTERS = [...'ABCDEFGHJKLMNPQRSTUVWXYZ'];
+const DIGITS = [...'0123456789'];
+
+export const BUILT_IN_SYMBOL_SETS: SymbolSet[] = [
+  { id: DEFAULT_SYMBOL_SET_ID, name: '基本アイコン', symbols: DEFAULT_ICONS, traits: iconTraits(DEFAULT_ICONS) },
+  { id: 'objects', name: 'もの', symbols: OBJECT_ICONS, traits: iconTraits(OBJECT_ICONS) },
+  { id: 'letters', name: '英字', symbols: LETTERS.map(textSymbol), traits: textTraits(LETTERS) },
+  { id: 'digits', name: '数字', symbols: DIGITS.map(textSymbol), traits: textTraits(DIGITS) },
+  {
+    id: 'glyphs',
+    name: '抽象記号',
+    symbols: GLYPHS.map(([d]) => glyph(d)),
+    traits: GLYPHS.map(([, family]) => ({ family })),
+  },
+  {
+    // Same shape in another colour, or same colour in another shape
+    id: 'colors',
+    name: '色分け',
+    symbols: COLORED_SHAPES.flatMap(Icon => SYMBOL_COLORS.map(color => colored(Icon, color))),
+    traits: COLORED_SHAPES.flatMap((_, shape) => SYMBOL_COLORS.map(color => ({ family: color, base: `shape-${shape}`, color }))),
+  },
+  {
+    id: 'rotations',
+    name: '回転',
+    symbols: ROTATED_CHARS.flatMap(char => ROTATIONS.map(degrees => rotated(textSymbol(char), degrees))),
+    traits: ROTATED_CHARS.flatMap(char => ROTATIONS.map(rotation => ({ family: charFamily(char), base: char, rotation }))),
+  },
+  {
+    id: 'mirrors',
+    name: '鏡像',
+    symbols: MIRRORED_CHARS.flatMap(char => [textSymbol(char), mirrored(textSymbol(char))]),
+    traits: MIRRORED_CHARS.flatMap(char => [false, true].map(isMirrored => ({ family: charFamily(char), base: char, mirrored: isMirrored }))),
+  },
+];
+
+// Splits user input into symbols: one per character (emoji included), ignoring whitespace and repeats
+export const parseSymbols = (text: string) => {
+  const segments = Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text), s => s.segment);
+  return [...new Set(segments.filter(s => s.trim() !== ''))];
+};
+
+export const customSymbolSet = (set: CustomSymbolSet): SymbolSet => ({
+  id: set.id,
+  name: set.name,
+  symbols: set.symbols.map(textSymbol),
+  traits: textTraits(set.symbols),
+  custom: true,
+});
+
+// Unknown ids (e.g. a deleted custom set) fall back to the default set
+export const resolveSymbolSet = (id: string | null | undefined, custom: CustomSymbolSet[]): SymbolSet =>
+  BUILT_IN_SYMBOL_SETS.find(s => s.id === id)
+  ?? custom.filter(s => s.id === id).map(customSymbolSet)[0]
+  ?? BUILT_IN_SYMBOL_SETS[0];
+
+export const symbolSetName = (id: string | null | undefined, custom: CustomSymbolSet[]) =>
+  [...BUILT_IN_SYMBOL_SETS, ...custom].find(s => s.id === (id ?? DEFAULT_SYMBOL_SET_ID))?.name ?? '削除したセット';
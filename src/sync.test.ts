@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { openStore } from '../server/db';
+import type { Store } from '../server/db';
+import { SCHEMA_VERSION } from './storage';
+import type { SyncState } from './storage';
+import { applySync, syncProfile } from './sync';
+import type { StatEntry } from './types';
+
+const CONFIG = { url: 'http://sync.test/', token: '' };
+// Small pages so the pull has to follow the cursor
+const PAGE_SIZE = 2;
+
+const entry = (id: string, date: number, score = 20) =>
+  ({ id, date, gameType: 'coding', psi: 100, score, mistakes: 1, elapsed: 60, config: { symbolCount: 6, searchSize: null, targetCount: null, adaptive: false, appVersion: '1', inputMethod: 'touch' } }) as StatEntry;
+
+const fresh = (stats: StatEntry[]): SyncState => ({ pending: stats.map(s => s.id), cursor: 0, lastSync: null, remoteId: null });
+
+// The routes of server/index.ts that a sync uses, on an in-memory store
+const serve = (store: Store) => async (url: string, init: RequestInit = {}) => {
+  const { pathname, searchParams } = new URL(url);
+  const [, profileId] = pathname.match(/^\/api\/profiles\/([^/]+)(\/sessions)?$/)!;
+  const id = decodeURIComponent(profileId);
+  const body = init.body ? JSON.parse(init.body as string) : null;
+  let result: unknown;
+  if (init.method === 'PUT') {
+    store.saveProfile(id, body.name, body.createdAt);
+    result = { ok: true };
+  } else if (init.method === 'POST') {
+    result = store.addSessions(id, body.schemaVersion, body.sessions);
+  } else {
+    const since = Number(searchParams.get('since'));
+    const rows = store.sessionsSince(id, since, PAGE_SIZE);
+    result = {
+      sessions: rows.map(r => ({ version: r.version, data: r.data })),
+      cursor: rows.length > 0 ? rows[rows.length - 1].seq : since,
+      more: rows.length === PAGE_SIZE,
+    };
+  }
+  return new Response(JSON.stringify(result), { status: 200 });
+};
+
+const profile = { id: 'p1', name: 'Aoi', createdAt: 1 };
+
+let store: Store;
+
+beforeEach(() => {
+  store = openStore(':memory:');
+  vi.stubGlobal('fetch', vi.fn(serve(store)));
+});
+
+afterEach(() => {
+  store.close();
+  vi.unstubAllGlobals();
+});
+
+describe('syncProfile', () => {
+  it('pushes the queue and pulls what other devices added', async () => {
+    const phone = [entry('1', 10), entry('2', 20), entry('3', 30)];
+    const first = await syncProfile(CONFIG, profile, phone, fresh(phone));
+    expect(first).toMatchObject({ pushed: 3, added: [], renamed: {} });
+    expect(first.state).toMatchObject({ pending: [], remoteId: 'p1' });
+
+    const tablet = [entry('4', 40)];
+    const second = await syncProfile(CONFIG, profile, tablet, fresh(tablet));
+    expect(second.added.map(s => s.id)).toEqual(['1', '2', '3']);
+    expect(applySync(tablet, second).map(s => s.id)).toEqual(['1', '2', '3', '4']);
+
+    // The phone only gets what arrived after its cursor
+    const third = await syncProfile(CONFIG, profile, phone, first.state);
+    expect(third.added.map(s => s.id)).toEqual(['4']);
+  });
+
+  it('renames a local session whose id another device already used', async () => {
+    await syncProfile(CONFIG, profile, [entry('1', 10)], fresh([entry('1', 10)]));
+    const local = [entry('1', 10, 5)];
+    const result = await syncProfile(CONFIG, profile, local, fresh(local));
+    const renamed = result.renamed['1'];
+    expect(renamed).toMatch(/^1-/);
+    expect(result.pushed).toBe(1);
+    expect(result.state.pending).toEqual([]);
+
+    const merged = applySync(local, result);
+    expect(merged.map(s => [s.id, s.score])).toEqual([[renamed, 5], ['1', 20]]);
+  });
+
+  it('leaves the cursor before records from a newer schema', async () => {
+    store.saveProfile('p1', 'Aoi', 1);
+    store.addSessions('p1', SCHEMA_VERSION, [entry('1', 10)]);
+    store.addSessions('p1', SCHEMA_VERSION + 1, [entry('2', 20)]);
+    store.addSessions('p1', SCHEMA_VERSION, [entry('3', 30)]);
+
+    const result = await syncProfile(CONFIG, profile, [], fresh([]));
+    expect(result.added.map(s => s.id)).toEqual(['1', '3']);
+    // The whole page holding it is fetched again next time
+    expect(result.state.cursor).toBe(0);
+  });
+
+  it('sends everything again when the profile moved to another server id', async () => {
+    const stats = [entry('1', 10), entry('2', 20)];
+    const moved: SyncState = { pending: [], cursor: 7, lastSync: 5, remoteId: 'default' };
+    const result = await syncProfile(CONFIG, profile, stats, moved);
+    expect(result.pushed).toBe(2);
+    expect(result.state).toMatchObject({ remoteId: 'p1', pending: [] });
+    expect(store.sessionsSince('p1', 0, 10).map(s => s.data.id)).toEqual(['1', '2']);
+  });
+});
+
+describe('applySync', () => {
+  it('keeps sessions recorded while the sync was in flight', () => {
+    const result = { added: [entry('2', 20), entry('3', 30)], renamed: { '1': '1-x' }, state: fresh([]), pushed: 0 };
+    const merged = applySync([entry('1', 10), entry('3', 30), entry('4', 40)], result);
+    expect(merged.map(s => s.id)).toEqual(['1-x', '2', '3', '4']);
+  });
+});
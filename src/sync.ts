@@ -0,0 +1,147 @@
+import type { Advice, TrainingSummary } from './advice';
+import { DEFAULT_PROFILE_ID, SCHEMA_VERSION, deviceId, migrateStats } from './storage';
+import type { Profile, SyncConfig, SyncState } from './storage';
+import { mergeStats } from './transfer';
+import type { StatEntry } from './types';
+
+// Offline-first sync with a self-hosted server (see server/). Sessions are
+// recorded locally as usual and queued by id; a sync pushes the queue, then
+// pulls whatever other devices have added for the same profile. Formal
+// assessments stay on the device; they move with the JSON export instead.
+
+export type RemoteProfile = {
+  id: string;
+  name: string;
+  createdAt: number;
+  sessions: number;
+  lastSession: number | null;
+};
+
+const PUSH_BATCH = 50;
+
+// Every install starts with the same guest profile id, so on the server it is
+// kept per device instead of merging unrelated guests into one trainee
+export const remoteProfileId = (profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? `${DEFAULT_PROFILE_ID}-${deviceId()}` : profileId;
+
+const request = async <T>(config: SyncConfig, path: string, init?: RequestInit): Promise<T> => {
+  const res = await fetch(`${config.url.replace(/\/+$/, '')}/api${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+    },
+  });
+  if (!res.ok) throw new Error(`Sync server responded with ${res.status}`);
+  return res.json();
+};
+
+// Whether the server has a Gemini key for the AI coach
+export const fetchAdviceAvailable = async (config: SyncConfig) =>
+  (await request<{ ok: boolean, advice?: boolean }>(config, '/health')).advice === true;
+
+export const requestAdvice = (config: SyncConfig, summary: TrainingSummary) =>
+  request<Advice>(config, '/advice', { method: 'POST', body: JSON.stringify(summary) });
+
+export const fetchRemoteProfiles = async (config: SyncConfig) =>
+  (await request<{ profiles: RemoteProfile[] }>(config, '/profiles')).profiles;
+
+type SessionPage = { sessions: { version: number, data: unknown }[], cursor: number, more: boolean };
+
+const fetchSessions = (config: SyncConfig, profileId: string, since: number) =>
+  request<SessionPage>(config, `/profiles/${encodeURIComponent(profileId)}/sessions?since=${since}`);
+
+// A profile's whole history on the server, for viewing rather than syncing
+export const fetchRemoteSessions = async (config: SyncConfig, profileId: string) => {
+  const stats: StatEntry[] = [];
+  for (let since = 0, more = true; more;) {
+    const page = await fetchSessions(config, profileId, since);
+    page.sessions.forEach(({ version, data }) => {
+      if (version <= SCHEMA_VERSION) stats.push(...migrateStats([data], version).valid);
+    });
+    since = page.cursor;
+    more = page.more;
+  }
+  return stats.sort((a, b) => a.date - b.date);
+};
+
+export type SyncResult = {
+  added: StatEntry[]; // from other devices
+  renamed: Record<string, string>; // local ids that were taken on the server, and their replacements
+  state: SyncState;
+  pushed: number;
+};
+
+export const syncProfile = async (config: SyncConfig, profile: Profile, stats: StatEntry[], state: SyncState): Promise<SyncResult> => {
+  const remoteId = remoteProfileId(profile.id);
+  // The profile now lives under another server id (the guest profile moved to a
+  // per-device one), so everything goes out again and the pull starts over
+  if (state.remoteId !== null && state.remoteId !== remoteId) {
+    state = { pending: stats.map(s => s.id), cursor: 0, lastSync: state.lastSync, remoteId };
+  }
+  const base = `/profiles/${encodeURIComponent(remoteId)}`;
+  await request(config, base, { method: 'PUT', body: JSON.stringify({ name: profile.name, createdAt: profile.createdAt }) });
+
+  // Sessions deleted locally since they were queued are simply dropped
+  let local = stats;
+  let pending = state.pending.filter(id => local.some(s => s.id === id));
+  let pushed = 0;
+  const renamed: Record<string, string> = {};
+  // A conflicting session gets a fresh id and goes out again in the next round
+  for (let round = 0; round < 2 && pending.length > 0; round++) {
+    const byId = new Map(local.map(s => [s.id, s]));
+    const conflicts: string[] = [];
+    for (let i = 0; i < pending.length; i += PUSH_BATCH) {
+      const sessions = pending.slice(i, i + PUSH_BATCH).map(id => byId.get(id)!);
+      const res = await request<{ added: number, conflicts: string[] }>(config, `${base}/sessions`, {
+        method: 'POST',
+        body: JSON.stringify({ schemaVersion: SCHEMA_VERSION, sessions }),
+      });
+      pushed += res.added;
+      conflicts.push(...res.conflicts);
+    }
+    const fresh = new Map(conflicts.map(id => [id, `${id}-${Math.random().toString(36).slice(2, 8)}`]));
+    local = local.map(s => fresh.has(s.id) ? { ...s, id: fresh.get(s.id)! } : s);
+    pending = [...fresh.values()];
+    fresh.forEach((to, from) => {
+      const original = Object.keys(renamed).find(k => renamed[k] === from) ?? from;
+      renamed[original] = to;
+    });
+  }
+
+  // Records from a newer app version can't be read yet; leave the cursor
+  // before them so they come through once this device is updated.
+  let cursor = state.cursor;
+  let from = state.cursor;
+  let held = false;
+  const pulled: StatEntry[] = [];
+  const known = new Set(local.map(s => s.id));
+  for (let more = true; more;) {
+    const page = await fetchSessions(config, remoteId, from);
+    page.sessions.forEach(({ version, data }) => {
+      if (version > SCHEMA_VERSION) {
+        held = true;
+        return;
+      }
+      migrateStats([data], version).valid.forEach(s => {
+        if (known.has(s.id)) return;
+        known.add(s.id);
+        pulled.push(s);
+      });
+    });
+    from = page.cursor;
+    if (!held) cursor = page.cursor;
+    more = page.more;
+  }
+
+  return { added: pulled, renamed, state: { pending, cursor, lastSync: Date.now(), remoteId }, pushed };
+};
+
+// Applied to the latest local stats rather than the snapshot the sync started
+// from, so a session recorded while the sync was in flight isn't lost.
+export const applySync = (stats: StatEntry[], result: SyncResult) => {
+  const local = stats.map(s => result.renamed[s.id] ? { ...s, id: result.renamed[s.id] } : s);
+  const known = new Set(local.map(s => s.id));
+  const added = result.added.filter(s => !known.has(s.id));
+  return added.length > 0 ? mergeStats(local, added) : local;
+};
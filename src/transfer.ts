@@ -0,0 +1,145 @@
+import { Capacitor } from '@capacitor/core';
+import { Directory, Encoding, Filesystem } from '@capacitor/filesystem';
+import { Share } from '@capacitor/share';
+import { SCHEMA_VERSION, migrateStats, parseAssessments } from './storage';
+import type { Assessment, StatEntry, Trial } from './types';
+
+const EXPORT_FORMAT = 'psi-training-export';
+// Layout of the file itself, apart from the schema of the entries in it.
+// 2 added assessments; files without a version are 1.
+const EXPORT_VERSION = 2;
+
+type ExportProfile = { id: string; name: string };
+
+type ExportFile = {
+  format: typeof EXPORT_FORMAT;
+  exportVersion: number;
+  schemaVersion: number;
+  exportedAt: number;
+  profile?: ExportProfile; // absent in files from before profiles were exported
+  stats: StatEntry[];
+  assessments: Assessment[];
+};
+
+export const exportJson = (stats: StatEntry[], assessments: Assessment[], profile?: ExportProfile) => {
+  const file: ExportFile = { format: EXPORT_FORMAT, exportVersion: EXPORT_VERSION, schemaVersion: SCHEMA_VERSION, exportedAt: Date.now(), profile, stats, assessments };
+  return JSON.stringify(file, null, 2);
+};
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  const text = Array.isArray(value) ? value.join(';') : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+
+export const exportSessionsCsv = (stats: StatEntry[]) => toCsv(
+  ['id', 'date', 'gameType', 'psi', 'psiCiLow', 'psiCiHigh', 'normVersion', 'score', 'mistakes', 'timeLimit', 'elapsed',
+    'pauseCount', 'pausedSeconds', 'symbolSet', 'symbolCount', 'codingMode', 'searchSize', 'targetCount', 'distractors', 'layout', 'reactionMode', 'benchmark', 'seed', 'program', 'programDay', 'adaptive', 'finalLevel', 'pages', 'omissions',
+    'inputMethod', 'appVersion', 'trials'],
+  stats.map(s => [
+    s.id, new Date(s.date).toISOString(), s.gameType, s.psi, s.psiCi?.[0], s.psiCi?.[1], s.normVersion, s.score, s.mistakes, s.timeLimit, s.elapsed,
+    s.pauses?.count ?? 0, s.pauses?.pausedSeconds ?? 0, s.config?.symbolSet, s.config?.symbolCount, s.config?.codingMode, s.config?.searchSize, s.config?.targetCount, s.config?.distractors, s.config?.layout, s.config?.reactionMode, s.config?.benchmark, s.seed, s.program?.id, s.program?.day,
+    s.config?.adaptive, s.adaptive?.finalLevel, s.cancellation?.pages, s.cancellation?.omissions,
+    s.config?.inputMethod, s.config?.appVersion, s.trials?.length ?? 0,
+  ]),
+);
+
+const STIMULUS_COLUMNS = [
+  'targets', 'searchGroup', 'isMatch', 'similarity', 'mode', 'mapping', 'tableOrder', 'buttonOrder', 'target', 'page', 'category', 'layout', 'position',
+  'isi', 'stimulus', 'anticipation',
+] as const;
+
+// Symbol ids and similarities within a cell are separated by ';'
+const trialStimulus = (t: Trial): Partial<Record<typeof STIMULUS_COLUMNS[number], unknown>> => {
+  switch (t.gameType) {
+    case 'symbol-match': return { targets: t.targets, searchGroup: t.searchGroup, isMatch: t.isMatch, similarity: t.similarity };
+    case 'coding': return { mode: t.mode ?? 'reshuffle', mapping: t.mapping, tableOrder: t.tableOrder, buttonOrder: t.buttonOrder, target: t.target };
+    case 'cancellation': return { page: t.page, category: t.category, layout: t.layout, position: t.position };
+    case 'reaction': return { mode: t.mode, isi: t.isi, stimulus: t.stimulus, anticipation: t.anticipation };
+  }
+};
+
+export const exportTrialsCsv = (stats: StatEntry[]) => toCsv(
+  ['sessionId', 'gameType', 'index', 'shownAt', 'respondedAt', 'rt', 'correct', 'answer', 'level', 'input', ...STIMULUS_COLUMNS],
+  stats.flatMap(s => (s.trials ?? []).map(t => {
+    const stimulus = trialStimulus(t);
+    return [
+      s.id, t.gameType, t.index, t.shownAt, t.respondedAt, t.rt, t.correct, t.answer, t.level, t.input,
+      ...STIMULUS_COLUMNS.map(c => stimulus[c]),
+    ];
+  })),
+);
+
+export type ImportPreview = {
+  added: StatEntry[];
+  duplicates: number;
+  invalid: number;
+  assessments: Assessment[]; // new ones only
+};
+
+// Accepts an export file or a bare array of entries (the old localStorage format)
+export const readExport = (json: string) => {
+  const data = JSON.parse(json);
+  let records: unknown;
+  let version: number;
+  let assessments: unknown = [];
+  if (Array.isArray(data)) {
+    records = data;
+    version = 1;
+  } else if (data && data.format === EXPORT_FORMAT) {
+    records = data.stats;
+    version = data.schemaVersion;
+    if (data.exportVersion > EXPORT_VERSION) throw new Error('Export file is from a newer app version');
+    assessments = data.assessments ?? [];
+  } else {
+    throw new Error('Not a PSI Training export file');
+  }
+  if (!Array.isArray(records) || !Array.isArray(assessments) || typeof version !== 'number') throw new Error('Export file has no sessions');
+  if (version > SCHEMA_VERSION) throw new Error('Export file is from a newer app version');
+
+  const { valid, invalid } = migrateStats(records, version);
+  const profile: ExportProfile | null = !Array.isArray(data) && typeof data.profile?.id === 'string' && typeof data.profile?.name === 'string'
+    ? { id: data.profile.id, name: data.profile.name }
+    : null;
+  return { profile, stats: valid, invalid, assessments: parseAssessments(assessments, version) };
+};
+
+export const previewImport = (json: string, existing: StatEntry[], existingAssessments: Assessment[]): ImportPreview => {
+  const { stats: valid, invalid, assessments } = readExport(json);
+  const knownAssessments = new Set(existingAssessments.map(a => a.id));
+  const known = new Set(existing.map(s => s.id));
+  const added: StatEntry[] = [];
+  valid.forEach(s => {
+    if (known.has(s.id)) return;
+    known.add(s.id);
+    added.push(s);
+  });
+  return {
+    added,
+    duplicates: valid.length - added.length,
+    invalid,
+    assessments: assessments.filter(a => !knownAssessments.has(a.id)),
+  };
+};
+
+export const mergeStats = (existing: StatEntry[], added: StatEntry[]) =>
+  [...existing, ...added].sort((a, b) => a.date - b.date);
+
+// The Android WebView ignores download links, so the native build writes
+// the file to the cache directory and hands it to the share sheet instead.
+export const saveFile = async (filename: string, content: string, type: string) => {
+  if (Capacitor.isNativePlatform()) {
+    const { uri } = await Filesystem.writeFile({ path: filename, data: content, directory: Directory.Cache, encoding: Encoding.UTF8 });
+    await Share.share({ title: filename, url: uri });
+    return;
+  }
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
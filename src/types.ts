@@ -0,0 +1,125 @@
+export type GameType = 'symbol-match' | 'coding' | 'cancellation' | 'reaction' | null;
+export type TimeLimit = 30 | 60 | 120 | 'endless';
+
+// reshuffle: new key every trial; classic: one key for the whole session
+export type CodingMode = 'reshuffle' | 'classic';
+
+// How close 記号探し distractors are to the targets
+export type DistractorLevel = 'random' | 'similar' | 'confusable';
+
+export type CancellationLayout = 'structured' | 'random';
+
+export type ReactionMode = 'simple' | 'choice2' | 'choice4' | 'go-nogo';
+
+export type InputMethod = 'mouse' | 'touch' | 'pen' | 'keyboard' | 'unknown';
+
+// Text symbols entered by the user; built-in sets are defined in symbols.tsx
+export type CustomSymbolSet = {
+  id: string;
+  name: string;
+  symbols: string[];
+};
+
+export type SessionConfig = {
+  symbolSet?: string | null; // symbol-match and coding; absent = default icons
+  symbolCount: number | null; // coding only; starting count when adaptive
+  codingMode?: CodingMode | null; // coding only; absent = reshuffle
+  searchSize: number | null;  // symbol-match only; starting size when adaptive
+  targetCount: number | null; // symbol-match only; starting count when adaptive
+  distractors?: DistractorLevel | null; // symbol-match only; absent = random
+  layout?: CancellationLayout | null; // cancellation only
+  reactionMode?: ReactionMode | null; // reaction only
+  benchmark?: string | null; // benchmark form the session was played on; absent = training
+  adaptive: boolean;
+  appVersion: string;
+  inputMethod: InputMethod;
+};
+
+export type TrialBase = {
+  index: number;
+  shownAt: number;     // ms since session start
+  respondedAt: number; // ms since session start
+  rt: number;          // ms
+  correct: boolean;
+  level?: number;      // difficulty level, adaptive sessions only
+  input?: InputMethod;
+};
+
+export type SymbolMatchTrial = TrialBase & {
+  gameType: 'symbol-match';
+  targets: number[];
+  searchGroup: number[];
+  isMatch: boolean;
+  answer: boolean;
+  similarity?: number[]; // per search item, closeness to the nearest target (1 = the target itself)
+};
+
+export type CodingTrial = TrialBase & {
+  gameType: 'coding';
+  mapping: number[]; // mapping[n - 1] = symbol for number n
+  tableOrder: number[];
+  buttonOrder: number[];
+  target: number;
+  answer: number;
+  mode?: CodingMode; // absent = reshuffle
+};
+
+// One trial per tap; rt is the time since the previous tap or page
+export type CancellationTrial = TrialBase & {
+  gameType: 'cancellation';
+  page: number;
+  category: number; // index of the page's target category
+  layout: CancellationLayout;
+  position: number; // grid cell, row-major
+  answer: number;   // symbol that was tapped
+};
+
+// Responses before the stimulus have a negative rt
+export type ReactionTrial = TrialBase & {
+  gameType: 'reaction';
+  mode: ReactionMode;
+  isi: number;           // ms of blank screen before the stimulus
+  stimulus: number;      // position (choice), 1 = go / 0 = no-go, always 0 for simple
+  answer: number | null; // position chosen, 1 for a go/no-go press, null = no response
+  anticipation: boolean; // pressed before the stimulus or implausibly fast
+};
+
+export type Trial = SymbolMatchTrial | CodingTrial | CancellationTrial | ReactionTrial;
+
+export type StatEntry = {
+  id: string;
+  date: number;
+  gameType: GameType;
+  psi: number;
+  psiCi?: [number, number]; // 95% confidence interval
+  normVersion?: string;
+  score: number;
+  mistakes: number;
+  timeLimit: TimeLimit;
+  elapsed: number;  // seconds with ms precision (whole seconds in older entries), excluding pauses
+  pauses?: { count: number; pausedSeconds: number };
+  config?: SessionConfig;
+  seed?: number; // stimulus seed; absent in sessions from before generation was seeded
+  program?: { id: string; start: string; day: number; slot: number }; // training program slot this session fulfilled
+  trials?: Trial[];
+  adaptive?: {
+    trajectory: number[]; // level of each trial in order
+    finalLevel: number;
+    peakLevel: number;
+  };
+  // Pages finished or skipped, and the targets left on skipped pages.
+  // The page still open when time runs out counts towards neither.
+  cancellation?: { pages: number; omissions: number };
+};
+
+// A formal assessment: the scored blocks of each subtest and their composite.
+// Kept apart from training sessions so practice doesn't mix with measurement.
+export type Assessment = {
+  id: string;
+  date: number;
+  protocolVersion: string;
+  psi: number; // composite
+  psiCi: [number, number];
+  normVersion: string;
+  subtests: StatEntry[];
+};
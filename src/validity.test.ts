@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { sessionValidity } from './validity';
+import type { Trial } from './types';
+
+// 記号探し trials; `answers` are the buttons pressed, `correct` whether each was right
+const matchTrials = (answers: boolean[], correct: boolean[], rt = 900): Trial[] =>
+  answers.map((answer, index) => ({
+    gameType: 'symbol-match', index, shownAt: index * rt, respondedAt: (index + 1) * rt, rt,
+    correct: correct[index], targets: [1, 2], searchGroup: [3, 4, 5, 6, 7], isMatch: correct[index] === answer, answer,
+  }));
+
+const session = (trials: Trial[]) => ({
+  gameType: 'symbol-match' as const,
+  score: trials.filter(t => t.correct).length,
+  mistakes: trials.filter(t => !t.correct).length,
+  trials,
+});
+
+const alternating = (n: number) => Array.from({ length: n }, (_, i) => i % 2 === 0);
+
+describe('sessionValidity', () => {
+  it('accepts a careful session', () => {
+    const correct = alternating(30).map((_, i) => i % 10 !== 0);
+    const validity = sessionValidity(session(matchTrials(alternating(30), correct)));
+    expect(validity).toMatchObject({ valid: true, flags: [], chance: 0.5 });
+    // 27 right, 3 wrong, two options
+    expect(validity.chanceCorrected).toBe(24);
+  });
+
+  it('flags accuracy that cannot be told apart from guessing', () => {
+    const correct = alternating(30).map((_, i) => i % 5 < 3);
+    const validity = sessionValidity(session(matchTrials(alternating(30), correct)));
+    expect(validity.flags.map(f => f.kind)).toEqual(['chance']);
+  });
+
+  it('flags answers given faster than the stimulus can be compared', () => {
+    const trials = matchTrials(alternating(20), alternating(20).map(() => true));
+    trials.slice(0, 5).forEach(t => { t.rt = 150; });
+    expect(sessionValidity(session(trials)).flags.map(f => f.kind)).toEqual(['too-fast']);
+  });
+
+  it('flags one button pressed regardless of the stimulus', () => {
+    const answers = [...alternating(10), ...Array(12).fill(true)];
+    const correct = [...Array(10).fill(true), ...Array.from({ length: 12 }, (_, i) => i % 2 === 0)];
+    const validity = sessionValidity(session(matchTrials(answers, correct)));
+    expect(validity.flags.map(f => f.kind)).toContain('pattern');
+    expect(validity.valid).toBe(false);
+  });
+
+  it('does not flag a long run of the same answer when it was right', () => {
+    const validity = sessionValidity(session(matchTrials(Array(15).fill(true), Array(15).fill(true))));
+    expect(validity.valid).toBe(true);
+  });
+
+  it('does not judge tasks without a fixed number of options or too few responses', () => {
+    expect(sessionValidity({ gameType: 'cancellation', score: 0, mistakes: 50, trials: [] }).chance).toBeNull();
+    const few = sessionValidity(session(matchTrials(alternating(6), Array(6).fill(false))));
+    expect(few.valid).toBe(true);
+  });
+});
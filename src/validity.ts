@@ -0,0 +1,91 @@
+import type { StatEntry, Trial } from './types';
+
+// Signs that a session measured guessing or button mashing rather than
+// processing speed. Only the forced-choice tasks can be guessed: 抹消 has no
+// fixed number of options and the reaction warm-up handles anticipations itself.
+
+export type ValidityFlag = {
+  kind: 'chance' | 'too-fast' | 'pattern';
+  detail: string;
+};
+
+export type Validity = {
+  chance: number | null; // accuracy expected from guessing alone; null where it doesn't apply
+  // Correct responses beyond what guessing would produce: right − wrong / (options − 1)
+  chanceCorrected: number | null;
+  flags: ValidityFlag[];
+  valid: boolean;
+};
+
+// Below this many responses accuracy can't be told apart from chance anyway
+const MIN_RESPONSES = 10;
+// One-sided 95%: accuracy must clear chance by this many standard errors
+const CHANCE_Z = 1.645;
+// Faster than this, the stimulus can't have been compared with the targets or key
+const MIN_PLAUSIBLE_RT: Record<'symbol-match' | 'coding', number> = { 'symbol-match': 300, coding: 250 };
+const TOO_FAST_SHARE = 0.25;
+// The same answer (記号探し) or button (符号) this many times in a row, with
+// at least this share of them wrong, is one key being pressed regardless of the stimulus
+const PATTERN_RUN = 10;
+const PATTERN_ERROR_SHARE = 0.4;
+
+const NOT_APPLICABLE: Validity = { chance: null, chanceCorrected: null, flags: [], valid: true };
+
+const codingOptions = (entry: Pick<StatEntry, 'trials' | 'config'>) => {
+  const counts = (entry.trials ?? []).flatMap(t => t.gameType === 'coding' ? [t.buttonOrder.length] : []);
+  if (counts.length > 0) return counts.reduce((a, c) => a + c, 0) / counts.length;
+  return entry.config?.symbolCount ?? null;
+};
+
+// What was pressed, independent of whether it was right
+const responseOf = (t: Trial) =>
+  t.gameType === 'symbol-match' ? String(t.answer)
+    : t.gameType === 'coding' ? String(t.buttonOrder.indexOf(t.answer))
+      : null;
+
+const longestGuessRun = (trials: Trial[]) => {
+  let longest = 0;
+  let start = 0;
+  for (let i = 1; i <= trials.length; i++) {
+    if (i < trials.length && responseOf(trials[i]) === responseOf(trials[start])) continue;
+    const run = trials.slice(start, i);
+    if (run.filter(t => !t.correct).length >= run.length * PATTERN_ERROR_SHARE) longest = Math.max(longest, run.length);
+    start = i;
+  }
+  return longest;
+};
+
+export const sessionValidity = (entry: Pick<StatEntry, 'gameType' | 'score' | 'mistakes' | 'trials' | 'config'>): Validity => {
+  const { gameType } = entry;
+  if (gameType !== 'symbol-match' && gameType !== 'coding') return NOT_APPLICABLE;
+  const options = gameType === 'symbol-match' ? 2 : codingOptions(entry);
+  if (options === null || options < 2) return NOT_APPLICABLE;
+  const chance = 1 / options;
+  const total = entry.score + entry.mistakes;
+  const chanceCorrected = Math.max(0, Math.round(entry.score - entry.mistakes / (options - 1)));
+  const flags: ValidityFlag[] = [];
+
+  if (total >= MIN_RESPONSES) {
+    const z = (entry.score - total * chance) / Math.sqrt(total * chance * (1 - chance));
+    if (z < CHANCE_Z) {
+      flags.push({ kind: 'chance', detail: `正答率 ${Math.round(entry.score / total * 100)}% は当てずっぽうの水準（${Math.round(chance * 100)}%）と区別できません` });
+    }
+  }
+
+  const trials = (entry.trials ?? []).filter(t => t.gameType === gameType);
+  if (trials.length >= MIN_RESPONSES) {
+    const minRt = MIN_PLAUSIBLE_RT[gameType];
+    const fast = trials.filter(t => t.rt < minRt).length;
+    if (fast / trials.length >= TOO_FAST_SHARE) {
+      flags.push({ kind: 'too-fast', detail: `${Math.round(fast / trials.length * 100)}%の回答が${minRt}ms未満で、刺激を見る前に押されています` });
+    }
+    const run = longestGuessRun(trials);
+    if (run >= PATTERN_RUN) {
+      flags.push({ kind: 'pattern', detail: `誤答を含む同じ回答が${run}回続いています` });
+    }
+  }
+
+  return { chance, chanceCorrected, flags, valid: flags.length === 0 };
+};
+
+export const isValidSession = (entry: StatEntry) => sessionValidity(entry).valid;
@@ -1,15 +1,61 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
+import { createHash } from 'crypto';
+import fs from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
+
+const listFiles = (dir: string, prefix = ''): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => entry.isDirectory()
+    ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+    : [`${prefix}${entry.name}`]);
+
+// Emits sw.js from src/sw.js with every file of the build to precache and a
+// version hashed from their contents, so each deployment gets its own cache
+// and the browser sees a changed worker.
+const serviceWorker = (): Plugin => {
+  let publicDir = '';
+  return {
+    name: 'psi-service-worker',
+    enforce: 'post',
+    apply: 'build',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      const files = Object.values(bundle).map(item => {
+        hash.update(item.fileName).update(item.type === 'chunk' ? item.code : item.source);
+        return item.fileName;
+      });
+      if (publicDir && fs.existsSync(publicDir)) {
+        listFiles(publicDir).forEach(file => {
+          hash.update(file).update(fs.readFileSync(path.join(publicDir, file)));
+          files.push(file);
+        });
+      }
+      const template = fs.readFileSync(path.resolve(__dirname, 'src/sw.js'), 'utf-8');
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template
+          .replace('__SW_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+          .replace('__SW_PRECACHE__', JSON.stringify(files.filter(f => !f.endsWith('.map')).sort())),
+      });
+    },
+  };
+};
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
+  const pkg = JSON.parse(fs.readFileSync(path.resolve(__dirname, 'package.json'), 'utf-8'));
   return {
     base: env.VITE_APP_BASE || '/pri-training/',
-    plugins: [react(), tailwindcss()],
+    plugins: [react(), tailwindcss(), serviceWorker()],
     define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.ADVICE_PROVIDER': JSON.stringify(env.ADVICE_PROVIDER),
+      __APP_VERSION__: JSON.stringify(pkg.version),
     },
     resolve: {
       alias: {